@@ -0,0 +1,36 @@
+// Runs src/**/*.test.ts under Node's test runner. The modules under test are
+// platform-free, so each test file is bundled on its own with esbuild (no
+// Capacitor, no DOM) and handed to `node --test`.
+import { readdirSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { spawnSync } from "node:child_process";
+import { build } from "esbuild";
+
+const OUT_DIR = "node_modules/.tmp/tests";
+
+const entries = readdirSync("src", { recursive: true })
+  .filter((f) => f.endsWith(".test.ts"))
+  .map((f) => join("src", f))
+  .sort();
+if (entries.length === 0) {
+  console.error("no src/**/*.test.ts files found");
+  process.exit(1);
+}
+
+rmSync(OUT_DIR, { recursive: true, force: true });
+await build({
+  entryPoints: entries,
+  outdir: OUT_DIR,
+  outbase: "src",
+  outExtension: { ".js": ".mjs" },
+  bundle: true,
+  platform: "node",
+  format: "esm",
+  target: "node20",
+  packages: "external",
+  logLevel: "warning",
+});
+
+const files = entries.map((f) => join(OUT_DIR, f.slice("src/".length).replace(/\.ts$/, ".mjs")));
+const { status } = spawnSync(process.execPath, ["--test", ...files], { stdio: "inherit" });
+process.exit(status ?? 1);
@@ -0,0 +1,245 @@
+#!/usr/bin/env node
+// ─────────────────────────────────────────────────────────────────────────────
+// Reference sync server for geo-voice
+//
+// Implements the protocol described in src/sync/protocol.ts with nothing but
+// Node's standard library:
+//
+//   npm run sync-server
+//   PORT=8787 SYNC_DATA_DIR=./sync-data SYNC_TOKEN=secret node server/syncServer.mjs
+//
+// Everything lives under SYNC_DATA_DIR: state.json (note records, tombstones,
+// the change feed position and the taxonomy) and audio/<key>. With SYNC_TOKEN
+// set, requests must carry `Authorization: Bearer <token>`. Meant for a home
+// network or behind a TLS-terminating proxy; it does not do TLS itself.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { createServer } from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, readdir, rename, stat, unlink, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_DIR = resolve(process.env.SYNC_DATA_DIR ?? "sync-data");
+const TOKEN = process.env.SYNC_TOKEN ?? "";
+const AUDIO_DIR = join(DATA_DIR, "audio");
+const STATE_FILE = join(DATA_DIR, "state.json");
+
+const MAX_JSON_BYTES = 5 * 1024 * 1024;
+const MAX_AUDIO_BYTES = 200 * 1024 * 1024;
+const MAX_PAGE = 500;
+/** Uploaded audio no note refers to is kept this long, for the note PUT that follows it. */
+const ORPHAN_GRACE_MS = 60 * 60_000;
+
+const SAFE_ID = /^[A-Za-z0-9_-]+$/;
+const AUDIO_KEY = /^[0-9a-z]+-[0-9a-z]+$/;
+
+// ── Storage ──────────────────────────────────────────────────────────────────
+
+/** @type {{ serverId: string; seq: number; notes: Record<string, any>; taxonomy: any }} */
+let state;
+let writing = Promise.resolve();
+
+async function loadState() {
+  await mkdir(AUDIO_DIR, { recursive: true });
+  try {
+    state = JSON.parse(await readFile(STATE_FILE, "utf8"));
+  } catch (err) {
+    if (err.code !== "ENOENT") throw err;
+    state = { serverId: randomUUID(), seq: 0, notes: {}, taxonomy: { rev: 0, taxonomy: { categories: [], tags: [] }, updatedAt: new Date(0).toISOString(), deviceId: "" } };
+    await saveState();
+  }
+}
+
+/**
+ * Writes land in order, through a temp file, so a crash never leaves half a
+ * state.json. A failed write fails its own request only; the next one writes
+ * the whole state again.
+ */
+function saveState() {
+  const body = JSON.stringify(state);
+  const run = writing.then(async () => {
+    await writeFile(`${STATE_FILE}.tmp`, body);
+    await rename(`${STATE_FILE}.tmp`, STATE_FILE);
+  });
+  writing = run.catch(() => undefined);
+  return run;
+}
+
+/** Same cyrb53 as src/sync/hash.ts; an upload must match the key it is stored under. */
+function audioKey(bytes) {
+  let h1 = 0xdeadbeef; let h2 = 0x41c6ce57;
+  for (let i = 0; i < bytes.length; i++) {
+    const c = bytes[i];
+    h1 = Math.imul(h1 ^ c, 2654435761);
+    h2 = Math.imul(h2 ^ c, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return `${(4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)}-${bytes.length.toString(36)}`;
+}
+
+async function audioExists(key) {
+  try { await stat(join(AUDIO_DIR, key)); return true; } catch { return false; }
+}
+
+/** Deletes audio that no live note refers to, once past the upload grace period. */
+async function collectAudio() {
+  const used = new Set(Object.values(state.notes).map((r) => r.audio?.key).filter(Boolean));
+  for (const name of await readdir(AUDIO_DIR)) {
+    if (used.has(name)) continue;
+    const path = join(AUDIO_DIR, name);
+    const { mtimeMs } = await stat(path).catch(() => ({ mtimeMs: Date.now() }));
+    if (Date.now() - mtimeMs > ORPHAN_GRACE_MS) await unlink(path).catch(() => undefined);
+  }
+}
+
+// ── HTTP helpers ─────────────────────────────────────────────────────────────
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const CORS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, PUT, HEAD, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type",
+};
+
+function send(res, status, body) {
+  if (body === undefined) { res.writeHead(status, CORS); res.end(); return; }
+  res.writeHead(status, { ...CORS, "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req, limit) {
+  const chunks = []; let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > limit) throw new HttpError(413, "body too large");
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function readJson(req) {
+  try { return JSON.parse((await readBody(req, MAX_JSON_BYTES)).toString("utf8")); } catch (err) {
+    if (err instanceof HttpError) throw err;
+    throw new HttpError(400, "body is not JSON");
+  }
+}
+
+function authorized(req) {
+  if (!TOKEN) return true;
+  const given = Buffer.from(req.headers.authorization ?? "");
+  const expected = Buffer.from(`Bearer ${TOKEN}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// ── Handlers ─────────────────────────────────────────────────────────────────
+
+function changes(url) {
+  const since = Math.max(0, Number(url.searchParams.get("since")) || 0);
+  const limit = Math.min(MAX_PAGE, Math.max(1, Number(url.searchParams.get("limit")) || MAX_PAGE));
+  const newer = Object.values(state.notes).filter((r) => r.seq > since).sort((a, b) => a.seq - b.seq);
+  const page = newer.slice(0, limit);
+  const more = newer.length > limit;
+  return { serverId: state.serverId, cursor: more ? page[page.length - 1].seq : state.seq, more, changes: page, taxonomy: state.taxonomy };
+}
+
+function validNote(id, body) {
+  if (typeof body?.baseRev !== "number" || typeof body.deviceId !== "string" || typeof body.updatedAt !== "string" || typeof body.deleted !== "boolean") return "baseRev, deviceId, updatedAt and deleted are required";
+  if (body.deleted) return null;
+  const n = body.note;
+  if (!n || n.id !== id || typeof n.createdAt !== "string" || typeof n.filePath !== "string") return "note must be a note with this id";
+  if (n.filePath !== "" && !(body.audio && AUDIO_KEY.test(body.audio.key))) return "a note with audio needs an audio reference";
+  return null;
+}
+
+async function putNote(id, body) {
+  const problem = validNote(id, body);
+  if (problem) throw new HttpError(400, problem);
+  if (!body.deleted && body.audio && !(await audioExists(body.audio.key))) throw new HttpError(400, `audio ${body.audio.key} has not been uploaded`);
+  const current = state.notes[id];
+  if (current && body.baseRev !== current.rev) return [409, { error: "conflict", current }];
+  const record = {
+    id,
+    rev: (current?.rev ?? 0) + 1,
+    seq: ++state.seq,
+    deleted: body.deleted,
+    updatedAt: body.updatedAt,
+    deviceId: body.deviceId,
+    note: body.deleted ? null : body.note,
+    audio: body.deleted ? null : body.audio ?? null,
+  };
+  state.notes[id] = record;
+  await saveState();
+  if (current?.audio && current.audio.key !== record.audio?.key) void collectAudio();
+  return [200, record];
+}
+
+async function putTaxonomy(body) {
+  const t = body?.taxonomy;
+  if (typeof body?.baseRev !== "number" || !Array.isArray(t?.categories) || !Array.isArray(t?.tags)) throw new HttpError(400, "baseRev and taxonomy are required");
+  if (body.baseRev !== state.taxonomy.rev) return [409, { error: "conflict", current: state.taxonomy }];
+  state.taxonomy = { rev: state.taxonomy.rev + 1, taxonomy: { categories: t.categories, tags: t.tags }, updatedAt: String(body.updatedAt), deviceId: String(body.deviceId) };
+  await saveState();
+  return [200, state.taxonomy];
+}
+
+async function handle(req, res) {
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (!authorized(req)) return send(res, 401, { error: "unauthorized" });
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const [, api, kind, arg, extra] = url.pathname.split("/");
+  if (api !== "v1" || extra !== undefined) throw new HttpError(404, "not found");
+
+  if (kind === "changes" && req.method === "GET") return send(res, 200, changes(url));
+
+  if (kind === "taxonomy") {
+    if (req.method === "GET") return send(res, 200, state.taxonomy);
+    if (req.method === "PUT") { const [status, body] = await putTaxonomy(await readJson(req)); return send(res, status, body); }
+  }
+
+  if (kind === "notes" && arg && SAFE_ID.test(arg)) {
+    if (req.method === "GET") return state.notes[arg] ? send(res, 200, state.notes[arg]) : send(res, 404, { error: "not found" });
+    if (req.method === "PUT") { const [status, body] = await putNote(arg, await readJson(req)); return send(res, status, body); }
+  }
+
+  if (kind === "audio" && arg && AUDIO_KEY.test(arg)) {
+    const path = join(AUDIO_DIR, arg);
+    if (req.method === "HEAD") return send(res, (await audioExists(arg)) ? 200 : 404);
+    if (req.method === "GET") {
+      const bytes = await readFile(path).catch(() => null);
+      if (!bytes) return send(res, 404, { error: "not found" });
+      res.writeHead(200, { ...CORS, "Content-Type": "application/octet-stream", "Content-Length": bytes.length });
+      return res.end(bytes);
+    }
+    if (req.method === "PUT") {
+      const bytes = await readBody(req, MAX_AUDIO_BYTES);
+      if (audioKey(bytes) !== arg) throw new HttpError(400, "audio does not match its key");
+      await writeFile(`${path}.tmp`, bytes);
+      await rename(`${path}.tmp`, path);
+      return send(res, 204);
+    }
+  }
+
+  throw new HttpError(404, "not found");
+}
+
+await loadState();
+await collectAudio();
+
+const server = createServer((req, res) => {
+  handle(req, res).catch((err) => {
+    if (!(err instanceof HttpError)) console.error(`${req.method} ${req.url}:`, err);
+    if (!res.headersSent) send(res, err instanceof HttpError ? err.status : 500, { error: err instanceof HttpError ? err.message : "internal error" });
+  });
+});
+// PORT=0 takes any free port; the line below says which (the sync tests read it).
+server.listen(PORT, () => {
+  console.log(`geo-voice sync server on :${server.address().port}, data in ${DATA_DIR}${TOKEN ? ", token required" : ""}`);
+});
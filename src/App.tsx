@@ -1,13 +1,48 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
 import { Capacitor } from "@capacitor/core";
 import { Geolocation } from "@capacitor/geolocation";
-import { Filesystem, Directory, Encoding } from "@capacitor/filesystem";
+import type { Position } from "@capacitor/geolocation";
 import { VoiceRecorder } from "capacitor-voice-recorder";
-import { v4 as uuidv4 } from "uuid";
+import type { Note, NoteLabel, NoteLocation, Taxonomy, TrackPoint } from "./types";
+import { readNotes, updateNote, deleteNote, repairNotes, patchNote, readTaxonomy, mutateTaxonomy, EMPTY_TAXONOMY } from "./notesStore";
+import { hasAudio, openAudio } from "./audioStorage";
+import { captureLocation, describeLocation, fromPosition, locationQuality, manualLocation } from "./location";
+import type { LocationQuality } from "./location";
+import { nearestPoint, positionAt, startTrack, trackStartLocation } from "./track";
+import { Geofence, WalkQueue } from "./geofence";
+import type { PositionFix } from "./geofence";
+import type { TrackSession } from "./track";
+import { EMPTY_FILTER, UNCATEGORIZED, applyNoteFilter, formatsIn, isFilterActive, timeSpan } from "./noteFilters";
+import type { NoteFilter } from "./noteFilters";
+import { CachedTileLayer } from "./cachedTileLayer";
+import { boundsAround, cacheUsage, clearTileCache, downloadTiles, getCacheCap, setCacheCap, tilesFor } from "./tileCache";
+import type { DownloadProgress, TileCoord } from "./tileCache";
+import { OSM_SOURCE, PRESET_SOURCES, customTileSource, loadTileSource, saveTileSource, validateTemplate } from "./tileSources";
+import type { TileSource } from "./tileSources";
+import { LevelMeter, RecorderEngine, capacitorSink, createPlatformBackend, saveRecording } from "./recorder";
+import type { RecorderSnapshot } from "./recorder";
+import { computePeaks, detectSpeech, loadNotePcm, pcmDurationMs, trimNote, trimSilence, trimTrack } from "./audioEdit";
+import type { Pcm, TrimRange } from "./audioEdit";
+import { buildExport, deliverExport, importFile } from "./exchange";
+import type { ExportFormat } from "./exchange";
+import { getTranscriptionSettings, listTranscripts, onTranscript, saveTranscriptionSettings, transcribeNewNote, transcriber } from "./transcription";
+import type { Transcript, TranscriptionJob, TranscriptionSettings } from "./transcription";
+import { getSyncSettings, onRemoteChanges, saveSyncSettings, syncer } from "./sync";
+import type { SyncSettings, SyncSnapshot } from "./sync";
+import { VaultError, changeVaultPassphrase, disableVault, enableVault, isResealing, keepUnlocked, lockVault, resumeVaultTask, unlockVault, vault } from "./vault";
+import type { VaultSnapshot } from "./vault";
+import { BUILD_SENTINEL, BUILD_TIME, buildDebugBundle, describeCapabilities, diagnostics, logger, probeCapabilities } from "./diagnostics";
+import type { Capabilities, LogEntry, LogLevel } from "./diagnostics";
+import { SearchIndex } from "./search";
+import { LABEL_COLORS, LABEL_ICONS, UNCATEGORIZED_STYLE, categoryOf, createLabel, tagsOf } from "./taxonomy";
+import type { SearchHit } from "./search";
 
-// Map (Leaflet) — tokenless OSM tiles
+// Map (Leaflet) — OSM tiles by default, configurable and cached for offline use
 import "leaflet/dist/leaflet.css";
-import { MapContainer, TileLayer, Marker, Popup, useMap } from "react-leaflet";
+import { MapContainer, Marker, Popup, Circle, CircleMarker, Polyline, useMap, useMapEvents } from "react-leaflet";
+import MarkerClusterGroup from "react-leaflet-cluster";
+import "react-leaflet-cluster/dist/assets/MarkerCluster.css";
+import "react-leaflet-cluster/dist/assets/MarkerCluster.Default.css";
 import * as L from "leaflet";
 // @ts-ignore
 import markerIcon2x from "leaflet/dist/images/marker-icon-2x.png";
@@ -22,295 +57,681 @@ L.Icon.Default.mergeOptions({ iconRetinaUrl: markerIcon2x, iconUrl: markerIcon,
 // Platform flags & debug
 // ─────────────────────────────────────────────────────────────────────────────
 const PLATFORM = Capacitor.getPlatform();
-const IS_WEB = PLATFORM === "web";
-const IS_IOS = PLATFORM === "ios";
-const BUILD_SENTINEL = "GV_DEBUG_2025_08_24_C"; // bump to prove fresh build
-const BUILD_TIME = new Date().toISOString();
-const dbgIOS = (...a: any[]) => console.log("[DEBUG][iOS]", ...a);
+const appLog = logger("app");
+const recorderLog = logger("recorder");
+const smokeLog = logger("smoke");
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────────────────────────────
 
-type Note = {
-  id: string;
-  filePath: string;
-  webPath: string;
-  createdAt: string;
-  lat: number;
-  lon: number;
-  label?: string;
-  durationMs?: number;
-  mimeType?: string;
-};
+type Tab = "record" | "map" | "library";
+
+type LibrarySort = "newest" | "oldest" | "label" | "duration";
+
+type MapViewport = { center: [number, number]; zoom: number };
 
-type UIStatus = "IDLE" | "RECORDING" | "SAVED" | "FAILED_TO_RECORD";
+/** Map state that outlives MapView, which unmounts on every tab switch. */
+type MapMemory = { viewport: MapViewport | null; filter: NoteFilter };
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Local persistence
+// Utils
 // ─────────────────────────────────────────────────────────────────────────────
 
-const NOTES_INDEX = "notesIndex.json";
+function msToClock(ms: number) {
+  const s = Math.floor(ms / 1000);
+  const m = Math.floor(s / 60);
+  const ss = (s % 60).toString().padStart(2, "0");
+  return `${m}:${ss}`;
+}
 
-async function readNotes(): Promise<Note[]> {
-  try {
-    const res = await Filesystem.readFile({ path: NOTES_INDEX, directory: Directory.Data, encoding: Encoding.UTF8 });
-    const raw = res.data as unknown; // string | Blob (web)
-    const text = typeof raw === "string" ? raw : await (raw as Blob).text();
-    return JSON.parse(text) as Note[];
-  } catch {
-    return [];
+function noteTitle(n: Note): string {
+  return n.label || new Date(n.createdAt).toLocaleString();
+}
+
+function sortNotes(notes: Note[], sort: LibrarySort): Note[] {
+  const out = [...notes];
+  switch (sort) {
+    case "newest": return out.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    case "oldest": return out.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    case "label": return out.sort((a, b) => noteTitle(a).localeCompare(noteTitle(b)));
+    case "duration": return out.sort((a, b) => (b.durationMs ?? 0) - (a.durationMs ?? 0));
   }
 }
 
-async function writeNotes(notes: Note[]): Promise<void> {
-  await Filesystem.writeFile({ path: NOTES_INDEX, data: JSON.stringify(notes), directory: Directory.Data, encoding: Encoding.UTF8, recursive: true });
+// ─────────────────────────────────────────────────────────────────────────────
+// Playback
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Plays notes through one <audio> element, releasing each source (object URLs on
+ * web) once it is done with. `playingId` is the note currently loaded, if any.
+ */
+function useNotePlayer(audioRef: React.RefObject<HTMLAudioElement | null>) {
+  const releaseRef = useRef<(() => void) | null>(null);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  useEffect(() => () => { releaseRef.current?.(); releaseRef.current = null; }, []);
+
+  /** Resolves to whether playback actually started. */
+  const play = async (note: Note, startAtMs = 0): Promise<boolean> => {
+    const a = audioRef.current; if (!a) return false;
+    if (playingId === note.id && releaseRef.current) { a.currentTime = startAtMs / 1000; return a.play().then(() => true, (err) => { appLog.warn("play failed", err); return false; }); }
+    a.pause(); releaseRef.current?.(); releaseRef.current = null;
+    try {
+      const { url, release } = await openAudio(note);
+      releaseRef.current = release; setPlayingId(note.id);
+      a.onended = () => { if (releaseRef.current === release) { release(); releaseRef.current = null; setPlayingId(null); } };
+      a.onloadedmetadata = () => { if (startAtMs > 0) a.currentTime = startAtMs / 1000; };
+      a.src = url; a.currentTime = 0; a.load();
+      await a.play();
+      return true;
+    } catch (err) {
+      appLog.warn("play failed", err);
+      return false;
+    }
+  };
+  /** Drops the loaded source, e.g. once the note's audio has been replaced. */
+  const unload = () => {
+    audioRef.current?.pause(); releaseRef.current?.(); releaseRef.current = null; setPlayingId(null);
+  };
+  return { play, unload, playingId };
+}
+
+/** Current playback position in ms while `active`, sampled from timeupdate. */
+function usePlayhead(audioRef: React.RefObject<HTMLAudioElement | null>, active: boolean): number {
+  const [ms, setMs] = useState(0);
+  useEffect(() => {
+    const a = audioRef.current;
+    if (!a || !active) return;
+    const onTime = () => setMs(a.currentTime * 1000);
+    a.addEventListener("timeupdate", onTime); a.addEventListener("seeked", onTime);
+    return () => { a.removeEventListener("timeupdate", onTime); a.removeEventListener("seeked", onTime); };
+  }, [audioRef, active]);
+  return ms;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Utils
+// Transcripts & search
 // ─────────────────────────────────────────────────────────────────────────────
 
-function msToClock(ms: number) {
-  const s = Math.floor(ms / 1000);
-  const m = Math.floor(s / 60);
-  const ss = (s % 60).toString().padStart(2, "0");
-  return `${m}:${ss}`;
+/** Every stored transcript, kept current as the queue finishes jobs, plus the queue's jobs by note id. */
+function useTranscripts() {
+  const [transcripts, setTranscripts] = useState<Map<string, Transcript>>(new Map());
+  const queue = useSyncExternalStore(transcriber.subscribe, transcriber.getSnapshot);
+  const jobs = useMemo(() => new Map(queue.jobs.map((j) => [j.noteId, j])), [queue]);
+  useEffect(() => {
+    let cancelled = false;
+    const add = (t: Transcript) => setTranscripts((prev) => new Map(prev).set(t.noteId, t));
+    const off = onTranscript(add);
+    listTranscripts().then((all) => { if (!cancelled) setTranscripts((prev) => new Map([...all.map((t) => [t.noteId, t] as const), ...prev])); }, (err) => appLog.warn("listTranscripts failed", err));
+    void transcriber.start();
+    return () => { cancelled = true; off(); };
+  }, []);
+  const forget = (id: string) => setTranscripts((prev) => { const next = new Map(prev); next.delete(id); return next; });
+  return { transcripts, jobs, forget };
+}
+
+function useSearchIndex(notes: Note[], transcripts: Map<string, Transcript>): SearchIndex {
+  return useMemo(() => {
+    const index = new SearchIndex();
+    for (const n of notes) index.set(n.id, [n.label ?? "", transcripts.get(n.id)?.text ?? ""].join("\n"));
+    return index;
+  }, [notes, transcripts]);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sync
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Runs the sync engine: a round at start, on reconnect and shortly after local edits; remote changes replace the library state. */
+function useSync(notes: Note[], taxonomy: Taxonomy, setNotes: (n: Note[]) => void, setTaxonomy: (t: Taxonomy) => void): SyncSnapshot {
+  const snap = useSyncExternalStore(syncer.subscribe, syncer.getSnapshot);
+  useEffect(() => {
+    const off = onRemoteChanges((u) => { setNotes(u.notes); setTaxonomy(u.taxonomy); });
+    const reconnect = () => syncer.schedule(0);
+    window.addEventListener("online", reconnect);
+    void syncer.start();
+    return () => { off(); window.removeEventListener("online", reconnect); };
+  }, [setNotes, setTaxonomy]);
+  useEffect(() => { syncer.changed(); }, [notes, taxonomy]);
+  return snap;
+}
+
+function syncStatusText(s: SyncSnapshot): string {
+  const waiting = s.pending > 0 ? ` · ${s.pending} waiting` : "";
+  switch (s.phase) {
+    case "off": return "Sync off";
+    case "syncing": return "Syncing…";
+    case "offline": return `Offline${waiting}`;
+    case "error": return `Sync failed${waiting}`;
+    case "idle": return s.lastSyncAt ? `Synced ${new Date(s.lastSyncAt).toLocaleTimeString()}${waiting}` : `Not synced yet${waiting}`;
+  }
 }
 
-function toBase64Standard(input: string): string {
-  let b64 = input.replace(/^data:.*;base64,/, "").trim();
-  b64 = b64.replace(/\s+/g, "").replace(/-/g, "+").replace(/_/g, "/");
-  const pad = b64.length % 4;
-  if (pad === 1) throw new Error("Invalid base64 length");
-  if (pad > 0) b64 += "=".repeat(4 - pad);
-  return b64;
+// ─────────────────────────────────────────────────────────────────────────────
+// Vault
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Locks once the app has spent this long in the background. */
+const AUTO_LOCK_MS = 5 * 60_000;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+function useAutoLock(active: boolean) {
+  useEffect(() => {
+    if (!active) return;
+    let hiddenAt: number | null = null;
+    let timer: number | undefined;
+    // A lock that falls due mid-reseal is owed until the rewrite ends.
+    let owed = false;
+    const lockNow = () => { owed = !lockVault() && isResealing(); };
+    // Timers do not run in a suspended app, so the elapsed time is checked again on return.
+    const onVisibility = () => {
+      window.clearTimeout(timer);
+      if (document.visibilityState === "hidden") {
+        hiddenAt = Date.now();
+        timer = window.setTimeout(lockNow, AUTO_LOCK_MS);
+      } else {
+        if (hiddenAt !== null && Date.now() - hiddenAt >= AUTO_LOCK_MS) lockNow();
+        hiddenAt = null;
+      }
+    };
+    const unsubscribe = vault.subscribe(() => { if (owed && !isResealing()) lockNow(); });
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => { document.removeEventListener("visibilitychange", onVisibility); window.clearTimeout(timer); unsubscribe(); };
+  }, [active]);
 }
 
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  let binary = "";
-  const bytes = new Uint8Array(buffer);
-  for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i]);
-  return btoa(binary);
+function vaultErrorText(err: unknown): string {
+  if (err instanceof VaultError && err.code === "WRONG_PASSPHRASE") return "Wrong passphrase";
+  return err instanceof Error ? err.message : String(err);
 }
 
-function mimeToExt(m: string): string {
-  if (!m) return "webm";
-  if (m.includes("mp4")) return "m4a";
-  if (m.includes("aac")) return "aac";
-  if (m.includes("ogg")) return "ogg";
-  if (m.includes("wav")) return "wav";
-  return "webm";
+function vaultTaskText(s: VaultSnapshot): string {
+  const verb = s.task === "unseal" ? "Decrypting" : s.task === "rekey" ? "Re-encrypting" : "Encrypting";
+  return s.progress && s.progress.total > 0 ? `${verb} library… ${s.progress.done}/${s.progress.total}` : `${verb} library…`;
 }
 
+const LockScreen: React.FC<{ vaultState: VaultSnapshot }> = ({ vaultState }) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const unlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true); setError(null);
+    try { await unlockVault(passphrase); } catch (err) { setError(vaultErrorText(err)); setBusy(false); }
+  };
+  return (
+    <div className="min-h-screen bg-neutral-950 text-neutral-50 flex flex-col items-center justify-center p-6">
+      <form onSubmit={unlock} className="w-full max-w-xs space-y-3 text-sm">
+        <div className="text-center text-neutral-200 font-medium tracking-wide">Library locked</div>
+        {vaultState.error ? (<div className="text-red-400 text-xs">{vaultState.error}</div>) : null}
+        <input value={passphrase} onChange={(e) => setPassphrase(e.target.value)} type="password" autoFocus autoComplete="current-password" placeholder="Passphrase" className="w-full bg-neutral-900 border border-neutral-700 rounded px-3 py-2 text-neutral-100" />
+        <button type="submit" disabled={busy || !passphrase || vaultState.error !== null} className="w-full py-2 rounded-lg bg-neutral-800 disabled:opacity-40">{busy ? "Unlocking…" : "Unlock"}</button>
+        {error ? (<div className="text-red-400 text-xs text-center">{error}</div>) : null}
+      </form>
+    </div>
+  );
+};
+
+const VaultPanel: React.FC<{ vaultState: VaultSnapshot; onClose: () => void }> = ({ vaultState, onClose }) => {
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const enabled = vaultState.state === "unlocked";
+  const unfinished = enabled && vaultState.task !== null && vaultState.progress === null;
+  const run = async (action: () => Promise<void>, done: string) => {
+    setBusy(true); setStatus(null);
+    try { await action(); setCurrent(""); setNext(""); setConfirm(""); setStatus(done); } catch (err) { setStatus(vaultErrorText(err)); } finally { setBusy(false); }
+  };
+  const checkNew = (): boolean => {
+    if (next.length < MIN_PASSPHRASE_LENGTH) { setStatus(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`); return false; }
+    if (next !== confirm) { setStatus("Passphrases do not match"); return false; }
+    return true;
+  };
+  const input = "w-full bg-neutral-950 border border-neutral-700 rounded px-2 py-1 text-neutral-100";
+  return (
+    <div className="mx-4 mb-2 text-xs text-neutral-300 bg-neutral-900 border border-neutral-800 rounded-lg p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <span>{enabled ? "Audio, transcripts and the library index are encrypted on this device." : "Stored unencrypted."}</span>
+        {enabled ? (<button onClick={() => lockVault({ force: true })} disabled={busy} className="ml-auto underline disabled:opacity-40">Lock now</button>) : null}
+      </div>
+      {unfinished ? (
+        <div className="flex items-center gap-3 text-red-400">
+          <span>{vaultTaskText(vaultState).replace("…", "")} did not finish{vaultState.taskError ? `: ${vaultState.taskError}` : ""}.</span>
+          <button onClick={() => void run(resumeVaultTask, "Finished")} disabled={busy} className="ml-auto px-2 py-1 rounded border border-neutral-700 text-neutral-200 disabled:opacity-40">Resume</button>
+        </div>
+      ) : null}
+      {enabled ? (
+        <>
+          <input value={current} onChange={(e) => setCurrent(e.target.value)} type="password" autoComplete="current-password" placeholder="Current passphrase" className={input} />
+          <input value={next} onChange={(e) => setNext(e.target.value)} type="password" autoComplete="new-password" placeholder="New passphrase" className={input} />
+          <input value={confirm} onChange={(e) => setConfirm(e.target.value)} type="password" autoComplete="new-password" placeholder="New passphrase again" className={input} />
+          <div className="flex items-center gap-3">
+            <button onClick={() => { if (checkNew()) void run(() => changeVaultPassphrase(current, next), "Passphrase changed"); }} disabled={busy || !current} className="px-2 py-1 rounded border border-neutral-700 disabled:opacity-40">Change passphrase</button>
+            <button onClick={() => { if (window.confirm("Decrypt the whole library and turn encryption off?")) void run(() => disableVault(current), "Encryption off"); }} disabled={busy || !current} className="underline text-neutral-400 disabled:opacity-40">Turn off</button>
+          </div>
+        </>
+      ) : (
+        <>
+          <input value={next} onChange={(e) => setNext(e.target.value)} type="password" autoComplete="new-password" placeholder="Passphrase" className={input} />
+          <input value={confirm} onChange={(e) => setConfirm(e.target.value)} type="password" autoComplete="new-password" placeholder="Passphrase again" className={input} />
+          <div className="text-neutral-500">There is no way back in without the passphrase. Exports and sync still send plain copies.</div>
+          <button onClick={() => { if (checkNew()) void run(() => enableVault(next), "Library encrypted"); }} disabled={busy} className="px-2 py-1 rounded border border-neutral-700 disabled:opacity-40">Encrypt library</button>
+        </>
+      )}
+      <div className="flex items-center gap-3">
+        <button onClick={onClose} className="underline text-neutral-400">Close</button>
+        {status ? (<span className={status.startsWith("Wrong") ? "text-red-400" : ""}>{status}</span>) : null}
+      </div>
+    </div>
+  );
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Minimalist UI
 // ─────────────────────────────────────────────────────────────────────────────
 
-const Screen: React.FC<React.PropsWithChildren<{ title?: string; debugLine?: string }>> = ({ title, debugLine, children }) => (
+const Screen: React.FC<React.PropsWithChildren<{ title?: string }>> = ({ title, children }) => (
   <div className="min-h-screen bg-neutral-950 text-neutral-50 flex flex-col">
     <header className="p-4 text-center font-medium text-neutral-200 tracking-wide">
       {title} <span className="text-xs text-neutral-500">({BUILD_SENTINEL} · {BUILD_TIME.slice(11,19)})</span>
-      {debugLine ? (<div className="mt-2 text-xs text-neutral-500">{debugLine}</div>) : null}
     </header>
     <main className="flex-1 flex flex-col items-center justify-center gap-4 p-4">{children}</main>
   </div>
 );
 
-const TabBar: React.FC<{ tab: "record" | "map"; onChange: (t: "record" | "map") => void }> = ({ tab, onChange }) => (
-  <nav className="fixed bottom-0 left-0 right-0 h-16 bg-neutral-900 border-t border-neutral-800 grid grid-cols-2">
+const TabBar: React.FC<{ tab: Tab; onChange: (t: Tab) => void }> = ({ tab, onChange }) => (
+  <nav className="fixed bottom-0 left-0 right-0 h-16 bg-neutral-900 border-t border-neutral-800 grid grid-cols-3">
     <button className={`text-sm ${tab === "record" ? "text-white" : "text-neutral-400"}`} onClick={() => onChange("record")}>Record</button>
     <button className={`text-sm ${tab === "map" ? "text-white" : "text-neutral-400"}`} onClick={() => onChange("map")}>Map</button>
+    <button className={`text-sm ${tab === "library" ? "text-white" : "text-neutral-400"}`} onClick={() => onChange("library")}>Library</button>
   </nav>
 );
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Categories & tags
+// ─────────────────────────────────────────────────────────────────────────────
+
+type TaxonomyUpdate = { taxonomy: Taxonomy; notes: Note[] };
+
+const LabelChip: React.FC<{ label: Pick<NoteLabel, "name" | "color" | "icon">; active?: boolean; onClick?: () => void }> = ({ label, active = true, onClick }) => {
+  const style = { borderColor: label.color, background: active ? label.color : "transparent", color: active ? "#0a0a0a" : label.color };
+  const text = `${label.icon} ${label.name}`;
+  return onClick
+    ? (<button onClick={onClick} className="px-2 py-0.5 rounded-full border text-xs" style={style}>{text}</button>)
+    : (<span className="px-2 py-0.5 rounded-full border text-xs" style={style}>{text}</span>);
+};
+
+/** Category (one) and tags (any) for a note, saved as they are tapped. */
+const LabelPicker: React.FC<{ note: Note; taxonomy: Taxonomy; onUpdated: (n: Note) => void; onTaxonomy: (u: TaxonomyUpdate) => void }> = ({ note, taxonomy, onUpdated, onTaxonomy }) => {
+  const [adding, setAdding] = useState<"category" | "tag" | null>(null);
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const category = categoryOf(note, taxonomy);
+  const tagIds = note.tagIds ?? [];
+
+  const apply = async (patch: Partial<Note>) => {
+    setError(null);
+    try { const next = await patchNote(note.id, patch); if (next) onUpdated(next); } catch (err) { setError(`SAVE_ERR: ${err instanceof Error ? err.message : String(err)}`); }
+  };
+  const toggleTag = (id: string) => {
+    const next = tagIds.includes(id) ? tagIds.filter((t) => t !== id) : [...tagIds, id];
+    void apply({ tagIds: next.length > 0 ? next : undefined });
+  };
+  const create = async () => {
+    if (!adding || !name.trim()) return;
+    const label = createLabel(name, adding === "category" ? taxonomy.categories : taxonomy.tags);
+    try {
+      onTaxonomy(await mutateTaxonomy((t) => (adding === "category" ? { ...t, categories: [...t.categories, label] } : { ...t, tags: [...t.tags, label] })));
+    } catch (err) { setError(`SAVE_ERR: ${err instanceof Error ? err.message : String(err)}`); return; }
+    await apply(adding === "category" ? { categoryId: label.id } : { tagIds: [...tagIds, label.id] });
+    setAdding(null); setName("");
+  };
+
+  return (
+    <div className="w-full space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-neutral-400 mr-1">Category</span>
+        {taxonomy.categories.map((c) => (<LabelChip key={c.id} label={c} active={c.id === category?.id} onClick={() => void apply({ categoryId: c.id === category?.id ? undefined : c.id })} />))}
+        <button onClick={() => setAdding("category")} className="text-neutral-400 underline">+ New</button>
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-neutral-400 mr-1">Tags</span>
+        {taxonomy.tags.map((t) => (<LabelChip key={t.id} label={t} active={tagIds.includes(t.id)} onClick={() => toggleTag(t.id)} />))}
+        <button onClick={() => setAdding("tag")} className="text-neutral-400 underline">+ New</button>
+      </div>
+      {adding ? (
+        <div className="flex gap-2">
+          <input autoFocus value={name} onChange={(e) => setName(e.target.value)} onKeyDown={(e) => { if (e.key === "Enter") void create(); }} placeholder={adding === "category" ? "New category" : "New tag"} className="flex-1 px-2 py-1 rounded bg-neutral-900 border border-neutral-700 text-neutral-100" />
+          <button onClick={() => void create()} className="px-2 py-1 rounded border border-neutral-700">Add</button>
+          <button onClick={() => { setAdding(null); setName(""); }} className="text-neutral-400 underline">Cancel</button>
+        </div>
+      ) : null}
+      {error ? (<div className="text-red-400">{error}</div>) : null}
+    </div>
+  );
+};
+
+const LabelRow: React.FC<{ label: NoteLabel; onChange: (l: NoteLabel) => void; onDelete: () => void }> = ({ label, onChange, onDelete }) => {
+  const [name, setName] = useState(label.name);
+  const select = "bg-neutral-950 border border-neutral-700 rounded px-1 py-1 text-neutral-100";
+  return (
+    <div className="flex items-center gap-2">
+      <select value={label.icon} onChange={(e) => onChange({ ...label, icon: e.target.value })} className={select}>
+        {[...new Set([label.icon, ...LABEL_ICONS])].map((i) => (<option key={i} value={i}>{i}</option>))}
+      </select>
+      <select value={label.color} onChange={(e) => onChange({ ...label, color: e.target.value })} className={select} style={{ color: label.color }}>
+        {[...new Set([label.color, ...LABEL_COLORS])].map((c) => (<option key={c} value={c} style={{ color: c }}>■ {c}</option>))}
+      </select>
+      <input value={name} onChange={(e) => setName(e.target.value)} onBlur={() => { if (name.trim() && name.trim() !== label.name) onChange({ ...label, name: name.trim() }); }} className="flex-1 bg-neutral-950 border border-neutral-700 rounded px-2 py-1 text-neutral-100" />
+      <button onClick={onDelete} className="text-red-400 underline">Delete</button>
+    </div>
+  );
+};
+
+/** Rename, restyle or delete categories and tags. Deleting one clears it from every note. */
+const TaxonomyEditor: React.FC<{ taxonomy: Taxonomy; notes: Note[]; onTaxonomy: (u: TaxonomyUpdate) => void }> = ({ taxonomy, notes, onTaxonomy }) => {
+  const [error, setError] = useState<string | null>(null);
+  const update = async (fn: (t: Taxonomy) => Taxonomy) => {
+    setError(null);
+    try { onTaxonomy(await mutateTaxonomy(fn)); } catch (err) { setError(`SAVE_ERR: ${err instanceof Error ? err.message : String(err)}`); }
+  };
+  const section = (kind: "categories" | "tags", title: string) => (
+    <div className="space-y-1">
+      <div className="text-neutral-400">{title}</div>
+      {taxonomy[kind].length === 0 ? (<div className="text-neutral-500">None yet; add them from a memo.</div>) : null}
+      {taxonomy[kind].map((l) => {
+        const used = notes.filter((n) => (kind === "categories" ? n.categoryId === l.id : n.tagIds?.includes(l.id))).length;
+        return (
+          <LabelRow key={l.id} label={l}
+            onChange={(next) => void update((t) => ({ ...t, [kind]: t[kind].map((x) => (x.id === next.id ? next : x)) }))}
+            onDelete={() => { if (used === 0 || window.confirm(`Remove "${l.name}" from ${used} memo${used === 1 ? "" : "s"}?`)) void update((t) => ({ ...t, [kind]: t[kind].filter((x) => x.id !== l.id) })); }} />
+        );
+      })}
+    </div>
+  );
+  return (
+    <div className="mx-4 mb-2 text-xs text-neutral-300 bg-neutral-900 border border-neutral-800 rounded-lg p-3 space-y-3">
+      {section("categories", "Categories")}
+      {section("tags", "Tags")}
+      {error ? (<div className="text-red-400">{error}</div>) : null}
+    </div>
+  );
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Record View (iOS native + diagnostics)
 // ─────────────────────────────────────────────────────────────────────────────
 
-const RecordView: React.FC<{ onSaved: (n: Note) => void }> = ({ onSaved }) => {
-  const [isRecording, setIsRecording] = useState(false);
-  const [elapsed, setElapsed] = useState(0);
-  const [status, setStatus] = useState<string | null>(null);
-  const [uiStatus, setUiStatus] = useState<UIStatus>("IDLE");
-  const [debugLine, setDebugLine] = useState("loading…");
-  const [showDiag, setShowDiag] = useState(false);
-  const timerRef = useRef<number | null>(null);
-  const positionRef = useRef<{ lat: number; lon: number } | null>(null);
+const MAX_DURATION_KEY = "gv.maxDurationMs";
+const TRACK_MODE_KEY = "gv.trackMode";
+const AUTO_TRIM_KEY = "gv.autoTrimSilence";
+const MAX_DURATION_CHOICES: { ms: number; label: string }[] = [
+  { ms: 0, label: "No limit" }, { ms: 60_000, label: "1 min" }, { ms: 5 * 60_000, label: "5 min" }, { ms: 15 * 60_000, label: "15 min" }, { ms: 60 * 60_000, label: "60 min" },
+];
 
-  // Web recorder
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
-  const mediaChunksRef = useRef<Blob[]>([]);
-  const mimeTypeRef = useRef<string>("");
+function recorderStatusText(snap: RecorderSnapshot): string | null {
+  switch (snap.state) {
+    case "requesting-permission": return "Waiting for microphone…";
+    case "recording": return "Recording…";
+    case "paused": return "Paused";
+    case "finalizing": return "Saving…";
+    case "failed": return snap.error ? `${snap.error.code}${snap.error.message !== snap.error.code ? `: ${snap.error.message}` : ""}` : "FAILED";
+    default: return null;
+  }
+}
 
-  // Prefetch location & capability debug
+/** Input level while recording; says so when this device cannot meter instead of showing a dead bar. */
+const LevelBar: React.FC<{ engine: RecorderEngine<Note>; active: boolean }> = ({ engine, active }) => {
+  const [level, setLevel] = useState(0);
+  const [available, setAvailable] = useState(true);
   useEffect(() => {
-    (async () => {
-      try { const pos = await Geolocation.getCurrentPosition({ enableHighAccuracy: true }); positionRef.current = { lat: pos.coords.latitude, lon: pos.coords.longitude }; } catch {}
-      const pluginAvailable = (Capacitor as any).isPluginAvailable?.("VoiceRecorder") ?? false;
-      // @ts-ignore
-      const hasMD = !!navigator.mediaDevices; // often false in WKWebView
-      // @ts-ignore
-      const hasGUM = !!navigator.mediaDevices?.getUserMedia;
-      let inputs = 0; try { // @ts-ignore
-        const devs = hasMD && navigator.mediaDevices.enumerateDevices ? await navigator.mediaDevices.enumerateDevices() : [];
-        inputs = devs ? devs.filter((d: any) => d.kind === "audioinput").length : 0; } catch {}
-      console.log("[DEBUG] sentinel:", BUILD_SENTINEL);
-      console.log("[DEBUG] platform=", PLATFORM, "plugin=", pluginAvailable, "hasMD=", hasMD, "hasGUM=", hasGUM, "inputs=", inputs);
-      setDebugLine(`platform=${PLATFORM} plugin=${pluginAvailable} hasMD=${hasMD} hasGUM=${hasGUM} inputs=${inputs}`);
-    })();
-  }, []);
+    if (!active) return;
+    const meter = new LevelMeter();
+    let raf = 0; let cancelled = false;
+    void meter.start(engine.inputStream()).then((ok) => {
+      if (cancelled) { meter.stop(); return; }
+      if (!ok) recorderLog.info("input level meter not available", { backend: engine.backendName });
+      setAvailable(ok);
+      const tick = () => { setLevel(meter.read() ?? 0); raf = requestAnimationFrame(tick); };
+      if (ok) tick();
+    });
+    return () => { cancelled = true; cancelAnimationFrame(raf); meter.stop(); setLevel(0); };
+  }, [engine, active]);
+  if (!active) return (<div className="h-2" />);
+  if (!available) return (<div className="h-2 text-xs text-neutral-500">Input level not available on this device</div>);
+  const pct = Math.round(level * 100);
+  return (
+    <div role="meter" aria-label="Input level" aria-valuemin={0} aria-valuemax={100} aria-valuenow={pct} className="w-40 h-2 rounded bg-neutral-800 overflow-hidden">
+      <div className={`h-full transition-[width] duration-75 ${pct > 90 ? "bg-red-500" : "bg-green-500"}`} style={{ width: `${pct}%` }} />
+    </div>
+  );
+};
 
-  const startTimer = () => { const t0 = Date.now(); timerRef.current = window.setInterval(() => setElapsed(Date.now() - t0), 200) as unknown as number; };
-  const stopTimer  = () => { if (timerRef.current) window.clearInterval(timerRef.current); timerRef.current = null; };
+const LOG_LEVEL_STYLE: Record<LogLevel, string> = { debug: "text-neutral-500", info: "text-neutral-300", warn: "text-amber-400", error: "text-red-400" };
+const LOG_LINES_SHOWN = 100;
 
-  const start = async () => {
+function formatLogEntry(e: LogEntry): string {
+  return `${e.t.slice(11, 19)} [${e.scope}] ${e.msg}${e.data !== undefined ? ` ${JSON.stringify(e.data)}` : ""}`;
+}
+
+/** Newest entries first, plus the bundle a tester sends instead of an Xcode console. */
+const DiagnosticsLogView: React.FC = () => {
+  const entries = useSyncExternalStore(diagnostics.subscribe, diagnostics.getSnapshot);
+  const [status, setStatus] = useState<string | null>(null);
+  const exportBundle = async () => {
+    setStatus("Building bundle…");
     try {
-      setStatus(null);
-      try { const pos = await Geolocation.getCurrentPosition({ enableHighAccuracy: true }); positionRef.current = { lat: pos.coords.latitude, lon: pos.coords.longitude }; } catch {}
-
-      if (IS_IOS) {
-        const available = (Capacitor as any).isPluginAvailable?.("VoiceRecorder") ?? false;
-        dbgIOS("pluginAvailable?", available, "typeof startRecording:", typeof (VoiceRecorder as any)?.startRecording);
-        if (!available || typeof (VoiceRecorder as any)?.startRecording !== "function") {
-          setUiStatus("FAILED_TO_RECORD"); setStatus("IOS_PLUGIN_NOT_LINKED"); return;
-        }
-        try {
-          const has = await VoiceRecorder.hasAudioRecordingPermission(); dbgIOS("hasMic?", has);
-          if (!has.value) { const asked = await VoiceRecorder.requestAudioRecordingPermission(); dbgIOS("askedMic?", asked); if (!asked.value) { setUiStatus("FAILED_TO_RECORD"); setStatus("IOS_MIC_PERMISSION_DENIED"); return; } }
-        } catch (permErr) { dbgIOS("permission error", permErr); }
+      setStatus(await deliverExport(await buildDebugBundle()));
+    } catch (err) {
+      appLog.error("debug bundle export failed", err);
+      setStatus(`EXPORT_ERR: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+  return (
+    <>
+      <div className="flex items-center gap-3">
+        <button onClick={exportBundle} className="px-2 py-1 rounded border border-neutral-700">Export debug bundle</button>
+        <button onClick={() => diagnostics.clear()} className="underline text-neutral-400">Clear log</button>
+      </div>
+      {status ? (<div className="text-neutral-400">{status}</div>) : null}
+      <div className="max-h-60 overflow-y-auto font-mono text-[10px] leading-tight space-y-0.5 break-all">
+        {entries.slice(-LOG_LINES_SHOWN).reverse().map((e, i) => (<div key={`${e.t}-${i}`} className={LOG_LEVEL_STYLE[e.level]}>{formatLogEntry(e)}</div>))}
+        {entries.length === 0 ? (<div className="text-neutral-500">Nothing logged yet.</div>) : null}
+      </div>
+    </>
+  );
+};
+
+const RecordView: React.FC<{ taxonomy: Taxonomy; onSaved: (n: Note) => void; onUpdated: (n: Note) => void; onTaxonomy: (u: TaxonomyUpdate) => void }> = ({ taxonomy, onSaved, onUpdated, onTaxonomy }) => {
+  const [elapsed, setElapsed] = useState(0);
+  const [status, setStatus] = useState<string | null>(null);
+  const [capabilities, setCapabilities] = useState<Capabilities | null>(null);
+  const [showDiag, setShowDiag] = useState(false);
+  // The memo just saved, offered for categorizing until the next take starts.
+  const [lastSaved, setLastSaved] = useState<Note | null>(null);
+  const [maxDurationMs, setMaxDurationMs] = useState(() => Number(localStorage.getItem(MAX_DURATION_KEY)) || 0);
+  // Fix from mount time: only used if the capture started with the recording comes back empty.
+  const warmFixRef = useRef<Position | null>(null);
+  const locationRef = useRef<Promise<NoteLocation | null> | null>(null);
+  const [trackMode, setTrackMode] = useState(() => localStorage.getItem(TRACK_MODE_KEY) === "1");
+  const [autoTrim, setAutoTrim] = useState(() => localStorage.getItem(AUTO_TRIM_KEY) === "1");
+  const autoTrimRef = useRef(autoTrim);
+  const trackRef = useRef<Promise<TrackSession | null> | null>(null);
+  const onSavedRef = useRef(onSaved);
+  const onUpdatedRef = useRef(onUpdated);
+  useEffect(() => { onSavedRef.current = onSaved; onUpdatedRef.current = onUpdated; }, [onSaved, onUpdated]);
+
+  const engine = useMemo(() => new RecorderEngine<Note>({
+    backend: createPlatformBackend(),
+    finalize: async (audio, info) => {
+      const startedAt = info.startedAt.getTime();
+      const track = await stopTrack();
+      const captured = await (locationRef.current ?? Promise.resolve(null));
+      const location = captured ?? trackStartLocation(track, startedAt) ?? (warmFixRef.current ? fromPosition(warmFixRef.current, "recording", startedAt) : null);
+      if (autoTrimRef.current) {
         try {
-          dbgIOS("calling startRecording →");
-          await VoiceRecorder.startRecording();
-          dbgIOS("← startRecording resolved");
-          setIsRecording(true); setUiStatus("RECORDING"); setElapsed(0); startTimer();
-          return;
-        } catch (e: any) {
-          dbgIOS("startRecording error", e); setUiStatus("FAILED_TO_RECORD"); setStatus(e?.message || "IOS_START_ERROR"); return;
-        }
+          const trimmed = await trimSilence(audio);
+          if (trimmed) return saveRecording(trimmed.audio, info, { location, track: trimTrack(track, trimmed.range) }, capacitorSink);
+        } catch (err) { recorderLog.warn("silence trim skipped", err); }
       }
-
-      if (IS_WEB) {
-        // Web path
-        // @ts-ignore
-        const hasMR = typeof window !== "undefined" && !!window.MediaRecorder;
-        if (!hasMR) { setUiStatus("FAILED_TO_RECORD"); setStatus("WEB_NO_MEDIARECORDER"); return; }
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
-        const a = document.createElement("audio");
-        const candidates = ["audio/mp4;codecs=mp4a.40.2","audio/webm;codecs=opus","audio/webm","audio/ogg;codecs=opus","audio/ogg"]; 
-        const chosen = (() => { // pick a type we can also play
-          // @ts-ignore
-          const MR: any = window.MediaRecorder;
-          for (const t of candidates) { try { if (MR.isTypeSupported?.(t) && !!a.canPlayType(t)) return t; } catch {} }
-          return "";
-        })();
-        mimeTypeRef.current = chosen || "audio/webm";
-        const mr = chosen ? new MediaRecorder(stream, { mimeType: chosen }) : new MediaRecorder(stream);
-        mediaChunksRef.current = []; mr.ondataavailable = (e) => { if (e.data && e.data.size) mediaChunksRef.current.push(e.data); };
-        mr.start(); mediaRecorderRef.current = mr; mediaStreamRef.current = stream;
-        setIsRecording(true); setUiStatus("RECORDING"); setElapsed(0); startTimer(); return;
+      return saveRecording(audio, info, { location, track }, capacitorSink);
+    },
+    onFinalized: (note, info) => {
+      onSavedRef.current(note); setLastSaved(note); setStatus(info.autoStopped ? "Saved (max length reached)" : "Saved"); setTimeout(() => setStatus(null), 1200);
+      if (!note.location) void backfillLocation(note);
+    },
+    onTransition: (from, next) => {
+      if (next.state === "failed") recorderLog.error(`${from} → failed`, next.error);
+      else recorderLog.info(`${from} → ${next.state}`, next.autoStopped && next.state === "finalizing" ? { autoStopped: true } : undefined);
+      if (from === "requesting-permission") {
+        if (next.state === "recording") recorderLog.info("microphone permission granted");
+        else if (next.error?.code === "PERMISSION_DENIED") recorderLog.warn("microphone permission denied", next.error);
       }
+    },
+  }), []);
 
-      // Android native (similar to iOS plugin)
-      const has = await VoiceRecorder.hasAudioRecordingPermission(); if (!has.value) { const asked = await VoiceRecorder.requestAudioRecordingPermission(); if (!asked.value) { setUiStatus("FAILED_TO_RECORD"); setStatus("MIC_PERMISSION_DENIED"); return; } }
-      await VoiceRecorder.startRecording(); setIsRecording(true); setUiStatus("RECORDING"); setElapsed(0); startTimer();
-    } catch (err: any) {
-      setUiStatus("FAILED_TO_RECORD"); setStatus(err?.message || "FAILED_TO_RECORD");
-    }
+  const stopTrack = async (): Promise<TrackPoint[]> => {
+    const pending = trackRef.current; trackRef.current = null;
+    const session = pending ? await pending : null;
+    return session ? session.stop() : [];
   };
 
-  const stop = async () => {
+  // No fix during the take: try once more now, while the user is still standing where they recorded.
+  const backfillLocation = async (note: Note) => {
+    const location = await captureLocation("after-recording", Date.parse(note.createdAt));
+    if (!location) return;
     try {
-      stopTimer();
+      const next = await patchNote(note.id, { location });
+      if (next) { onUpdatedRef.current(next); setLastSaved((s) => (s?.id === next.id ? next : s)); }
+    } catch (err) { recorderLog.warn("location backfill failed", err); }
+  };
+  const snap = useSyncExternalStore(engine.subscribe, engine.getSnapshot);
+  const isActive = snap.state === "recording" || snap.state === "paused";
+  const isBusy = snap.state === "requesting-permission" || snap.state === "finalizing";
 
-      if (IS_IOS) {
-        const available = (Capacitor as any).isPluginAvailable?.("VoiceRecorder") ?? false;
-        dbgIOS("stop: pluginAvailable?", available);
-        if (!available) { setUiStatus("FAILED_TO_RECORD"); setStatus("IOS_PLUGIN_NOT_LINKED"); return; }
-        try {
-          dbgIOS("calling stopRecording →");
-          const result = await VoiceRecorder.stopRecording();
-          dbgIOS("← stopRecording resolved", { hasData: !!result?.value?.recordDataBase64, ms: result?.value?.msDuration, mime: result?.value?.mimeType });
-          setIsRecording(false);
-          const rawBase64 = result?.value?.recordDataBase64; const ms = result?.value?.msDuration as number | undefined; const mime = (result?.value?.mimeType as string | undefined) || "audio/m4a";
-          if (!rawBase64) throw new Error("No audio data");
-          const base64 = toBase64Standard(rawBase64);
-          const id = uuidv4(); const ext = mimeToExt(mime);
-          const filename = `audio/${id}.${ext}`;
-          await Filesystem.writeFile({ path: filename, directory: Directory.Data, data: base64, recursive: true });
-          const fileUri = await Filesystem.getUri({ path: filename, directory: Directory.Data });
-          const webPath = Capacitor.convertFileSrc(fileUri.uri);
-          const note: Note = { id, filePath: filename, webPath, createdAt: new Date().toISOString(), lat: positionRef.current?.lat ?? 0, lon: positionRef.current?.lon ?? 0, label: new Date().toLocaleString(), durationMs: ms ?? elapsed, mimeType: mime };
-          const existing = await readNotes(); await writeNotes([note, ...existing]); setUiStatus("SAVED"); setStatus("Saved"); onSaved(note); setTimeout(() => setStatus(null), 1200);
-          return;
-        } catch (e: any) {
-          dbgIOS("stopRecording error", e); setIsRecording(false); setUiStatus("FAILED_TO_RECORD"); setStatus(e?.message || "IOS_STOP_ERROR"); return;
-        }
-      }
+  useEffect(() => () => { void engine.cancel(); void stopTrack(); }, [engine]);
+  // Auto-lock would unmount this view and cancel the take.
+  useEffect(() => (isActive || isBusy ? keepUnlocked() : undefined), [isActive, isBusy]);
+  useEffect(() => { if (snap.state === "failed" || snap.state === "idle") void stopTrack(); }, [snap.state]);
+  useEffect(() => { localStorage.setItem(TRACK_MODE_KEY, trackMode ? "1" : "0"); }, [trackMode]);
+  useEffect(() => { autoTrimRef.current = autoTrim; localStorage.setItem(AUTO_TRIM_KEY, autoTrim ? "1" : "0"); }, [autoTrim]);
+  useEffect(() => { engine.setMaxDuration(maxDurationMs); localStorage.setItem(MAX_DURATION_KEY, String(maxDurationMs)); }, [engine, maxDurationMs]);
+  useEffect(() => {
+    if (snap.state !== "recording") return;
+    const t = window.setInterval(() => setElapsed(engine.elapsedMs()), 200);
+    return () => window.clearInterval(t);
+  }, [engine, snap.state]);
 
-      if (IS_WEB) {
-        const mr = mediaRecorderRef.current; if (!mr) throw new Error("No recorder");
-        const finished = new Promise<Blob>((resolve) => { mr.onstop = () => resolve(new Blob(mediaChunksRef.current, { type: mimeTypeRef.current || "audio/webm" })); });
-        mr.stop(); const blob = await finished; mediaStreamRef.current?.getTracks().forEach((t) => t.stop()); mediaRecorderRef.current = null; mediaStreamRef.current = null;
-        await persistBlobAsNote(blob, elapsed, positionRef.current, onSaved); setIsRecording(false); setUiStatus("SAVED"); setStatus("Saved"); setTimeout(() => setStatus(null), 1200);
-        return;
-      }
+  // Prefetch location & probe capabilities
+  useEffect(() => {
+    (async () => {
+      try { warmFixRef.current = await Geolocation.getCurrentPosition({ enableHighAccuracy: true }); } catch (err) { recorderLog.info("no warm location fix", err); }
+      const caps = await probeCapabilities();
+      recorderLog.info("capabilities", { ...caps, backend: engine.backendName });
+      setCapabilities(caps);
+    })();
+  }, [engine]);
 
-      // Android native
-      const result = await VoiceRecorder.stopRecording(); setIsRecording(false);
-      const rawBase64 = result?.value?.recordDataBase64; const ms = result?.value?.msDuration as number | undefined; const mime = (result?.value?.mimeType as string | undefined) || "audio/m4a";
-      if (!rawBase64) throw new Error("No audio data"); const base64 = toBase64Standard(rawBase64); const id = uuidv4(); const ext = mimeToExt(mime);
-      const filename = `audio/${id}.${ext}`; await Filesystem.writeFile({ path: filename, directory: Directory.Data, data: base64, recursive: true }); const fileUri = await Filesystem.getUri({ path: filename, directory: Directory.Data }); const webPath = Capacitor.convertFileSrc(fileUri.uri);
-      const note: Note = { id, filePath: filename, webPath, createdAt: new Date().toISOString(), lat: positionRef.current?.lat ?? 0, lon: positionRef.current?.lon ?? 0, label: new Date().toLocaleString(), durationMs: ms ?? elapsed, mimeType: mime }; const existing = await readNotes(); await writeNotes([note, ...existing]); onSaved(note); setUiStatus("SAVED"); setStatus("Saved"); setTimeout(() => setStatus(null), 1200);
-    } catch (err: any) { setIsRecording(false); setUiStatus("FAILED_TO_RECORD"); setStatus(err?.message || "FAILED_TO_RECORD"); setTimeout(() => setStatus(null), 1800); }
+  const start = async () => {
+    setStatus(null); setElapsed(0); setLastSaved(null);
+    // Runs alongside the recording instead of delaying it; finalize waits for it.
+    locationRef.current = captureLocation("recording", Date.now());
+    try { await engine.start(); } catch (err) { setStatus(err instanceof Error ? err.message : String(err)); }
+    if (trackMode && engine.getSnapshot().state === "recording") {
+      trackRef.current = startTrack(() => (engine.getSnapshot().state === "recording" ? engine.elapsedMs() : null)).catch((err) => { recorderLog.warn("track mode unavailable", err); return null; });
+    }
   };
 
-  async function persistBlobAsNote(blob: Blob, elapsedMs: number, pos: {lat:number;lon:number} | null, onSavedCb: (n: Note)=>void) {
-    const arrayBuffer = await blob.arrayBuffer(); const base64 = arrayBufferToBase64(arrayBuffer); const id = uuidv4(); const ext = mimeToExt(blob.type);
-    const filename = `audio/${id}.${ext}`; await Filesystem.writeFile({ path: filename, directory: Directory.Data, data: base64, recursive: true }); const webPath = `data:${blob.type};base64,${base64}`;
-    const note: Note = { id, filePath: filename, webPath, createdAt: new Date().toISOString(), lat: pos?.lat ?? 0, lon: pos?.lon ?? 0, label: new Date().toLocaleString(), durationMs: elapsedMs, mimeType: blob.type };
-    const existing = await readNotes(); await writeNotes([note, ...existing]); onSavedCb(note);
-  }
+  const stop = async () => {
+    try { await engine.stop(); } catch (err) { setStatus(err instanceof Error ? err.message : String(err)); }
+  };
+
+  const togglePause = async () => {
+    try { await (snap.state === "paused" ? engine.resume() : engine.pause()); } catch (err) { setStatus(err instanceof Error ? err.message : String(err)); }
+  };
 
   // Diagnostics panel
   const runNativeSmokeTest = async () => {
+    const fail = (reason: string, data?: unknown) => { smokeLog.error(`failed: ${reason}`, data); setStatus(`SMOKE_FAIL: ${reason}`); };
     try {
-      const available = (Capacitor as any).isPluginAvailable?.("VoiceRecorder") ?? false;
+      const available = Capacitor.isPluginAvailable("VoiceRecorder");
+      smokeLog.info("start", { plugin: available });
       setStatus(`SMOKE: plugin=${available}`);
-      if (!available) { setUiStatus("FAILED_TO_RECORD"); setStatus("SMOKE_FAIL: PLUGIN_NOT_LINKED"); return; }
-      const has = await VoiceRecorder.hasAudioRecordingPermission(); if (!has.value) { const asked = await VoiceRecorder.requestAudioRecordingPermission(); if (!asked.value) { setStatus("SMOKE_FAIL: MIC_DENIED"); return; } }
-      dbgIOS("SMOKE start →"); await VoiceRecorder.startRecording(); setStatus("SMOKE: recording 1s…"); await new Promise(r=>setTimeout(r, 1200));
-      const res = await VoiceRecorder.stopRecording(); dbgIOS("SMOKE stop ←", res);
-      const base = res?.value?.recordDataBase64; const ms = res?.value?.msDuration; const mime = res?.value?.mimeType; setStatus(`SMOKE_OK ms=${ms} mime=${mime} has=${!!base}`);
-    } catch (e: any) {
-      dbgIOS("SMOKE error", e); setStatus(`SMOKE_ERR: ${e?.message || e}`);
+      if (!available) { fail("PLUGIN_NOT_LINKED"); return; }
+      const has = await VoiceRecorder.hasAudioRecordingPermission();
+      smokeLog.info("permission check", { granted: has.value });
+      if (!has.value) {
+        const asked = await VoiceRecorder.requestAudioRecordingPermission();
+        smokeLog.info("permission request", { granted: asked.value });
+        if (!asked.value) { fail("MIC_DENIED"); return; }
+      }
+      await VoiceRecorder.startRecording(); setStatus("SMOKE: recording 1s…"); await new Promise(r=>setTimeout(r, 1200));
+      const res = await VoiceRecorder.stopRecording();
+      const base = res?.value?.recordDataBase64; const ms = res?.value?.msDuration; const mime = res?.value?.mimeType;
+      smokeLog.info("ok", { ms, mime, bytes: base ? Math.floor(base.length * 3 / 4) : 0 });
+      setStatus(`SMOKE_OK ms=${ms} mime=${mime} has=${!!base}`);
+    } catch (err) {
+      smokeLog.error("error", err); setStatus(`SMOKE_ERR: ${err instanceof Error ? err.message : String(err)}`);
     }
   };
 
   const requestMic = async () => {
-    try { const asked = await VoiceRecorder.requestAudioRecordingPermission(); setStatus(`PERM: asked=${asked.value}`); } catch (e: any) { setStatus(`PERM_ERR: ${e?.message || e}`); }
+    try {
+      const asked = await VoiceRecorder.requestAudioRecordingPermission();
+      recorderLog.info("permission request", { granted: asked.value });
+      setStatus(`PERM: asked=${asked.value}`);
+    } catch (err) {
+      recorderLog.error("permission request failed", err); setStatus(`PERM_ERR: ${err instanceof Error ? err.message : String(err)}`);
+    }
   };
 
   return (
-    <Screen title="New Voice Memo" debugLine={debugLine}>
-      <div className="text-xs text-neutral-400">{uiStatus === "RECORDING" ? "Recording…" : uiStatus === "FAILED_TO_RECORD" ? (status || "FAILED_TO_RECORD") : status || ""}</div>
-      <button onClick={isRecording ? stop : start} className={`w-40 h-40 rounded-full flex items-center justify-center shadow-xl transition active:scale-95 border ${isRecording ? "bg-red-600 border-red-500 text-white" : "bg-neutral-800 border-neutral-700 text-neutral-100"}`}>
-        <div className="text-lg font-semibold">{isRecording ? "Stop" : "Record"}</div>
+    <Screen title="New Voice Memo">
+      <div className="text-xs text-neutral-400">{recorderStatusText(snap) ?? status ?? ""}</div>
+      <button onClick={isActive ? stop : start} disabled={isBusy} className={`w-40 h-40 rounded-full flex items-center justify-center shadow-xl transition active:scale-95 border disabled:opacity-60 ${isActive ? "bg-red-600 border-red-500 text-white" : "bg-neutral-800 border-neutral-700 text-neutral-100"}`}>
+        <div className="text-lg font-semibold">{isActive ? "Stop" : snap.state === "finalizing" ? "Saving…" : "Record"}</div>
       </button>
-      <div className="h-6 text-sm text-neutral-400">{isRecording ? msToClock(elapsed) : ""}</div>
+      <LevelBar engine={engine} active={snap.state === "recording"} />
+      <div className="h-6 text-sm text-neutral-400">{isActive ? msToClock(elapsed) : ""}{isActive && maxDurationMs ? ` / ${msToClock(maxDurationMs)}` : ""}</div>
+      {isActive && engine.supportsPause ? (
+        <button onClick={togglePause} className="px-4 py-1 rounded-full border border-neutral-700 text-sm text-neutral-200">{snap.state === "paused" ? "Resume" : "Pause"}</button>
+      ) : null}
+      <label className="text-xs text-neutral-400 flex items-center gap-2">
+        <input type="checkbox" checked={trackMode} disabled={isActive || isBusy} onChange={(e) => setTrackMode(e.target.checked)} />
+        Record my route while talking
+      </label>
+      <label className="text-xs text-neutral-400 flex items-center gap-2">
+        <input type="checkbox" checked={autoTrim} onChange={(e) => setAutoTrim(e.target.checked)} />
+        Cut silence at the start and end (saves as WAV)
+      </label>
+      {lastSaved && !isActive && !isBusy ? (
+        <div className="w-full max-w-sm bg-neutral-900 border border-neutral-800 rounded-lg p-3 space-y-2">
+          <div className="text-xs text-neutral-400">Saved “{noteTitle(lastSaved)}”. Categorize it:</div>
+          <LabelPicker note={lastSaved} taxonomy={taxonomy} onUpdated={(n) => { setLastSaved(n); onUpdated(n); }} onTaxonomy={onTaxonomy} />
+        </div>
+      ) : null}
+      <label className="text-xs text-neutral-400 flex items-center gap-2">
+        Max length
+        <select value={maxDurationMs} onChange={(e) => setMaxDurationMs(Number(e.target.value))} className="bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-neutral-100">
+          {MAX_DURATION_CHOICES.map((c) => (<option key={c.ms} value={c.ms}>{c.label}</option>))}
+        </select>
+      </label>
 
       {/* Diagnostics toggle */}
       <button onClick={() => setShowDiag(s => !s)} className="text-xs text-neutral-400 underline">{showDiag ? "Hide diagnostics" : "Show diagnostics"}</button>
       {showDiag && (
         <div className="w-full max-w-sm text-xs text-neutral-300 bg-neutral-900 border border-neutral-800 rounded-lg p-3 space-y-2">
           <div>Build: {BUILD_SENTINEL} · {BUILD_TIME}</div>
-          <div>Platform: {PLATFORM}</div>
+          <div>Platform: {PLATFORM} · backend={engine.backendName}</div>
+          <div className="text-neutral-500">{capabilities ? describeCapabilities(capabilities) : "probing…"}</div>
           <div className="flex gap-2">
             <button onClick={requestMic} className="px-2 py-1 rounded border border-neutral-700">Ask Mic</button>
             <button onClick={runNativeSmokeTest} className="px-2 py-1 rounded border border-neutral-700">Native 1s Smoke</button>
           </div>
-          <div className="text-neutral-400">Watch Xcode for [DEBUG][iOS] logs.</div>
+          <DiagnosticsLogView />
         </div>
       )}
     </Screen>
@@ -318,42 +739,449 @@ const RecordView: React.FC<{ onSaved: (n: Note) => void }> = ({ onSaved }) => {
 };
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Map View (unchanged)
+// Map View
 // ─────────────────────────────────────────────────────────────────────────────
 
-const Recenter: React.FC<{ lat: number; lon: number }> = ({ lat, lon }) => { const map = useMap(); useEffect(() => { map.setView([lat, lon]); }, [lat, lon]); return null; };
-const FitBounds: React.FC<{ points: [number, number][] }> = ({ points }) => { const map = useMap(); useEffect(() => { if (points && points.length > 0) { const b = L.latLngBounds(points.map(([la, lo]) => L.latLng(la, lo))); map.fitBounds(b, { padding: [40, 40] }); } }, [JSON.stringify(points)]); return null; };
+const DEFAULT_CENTER: [number, number] = [42.2808, -83.743];
+// Accuracy circles and routes turn into noise when zoomed out over hundreds of memos.
+const DETAIL_MIN_ZOOM = 15;
+
+const ViewportTracker: React.FC<{ onChange: (v: MapViewport) => void }> = ({ onChange }) => {
+  useMapEvents({ moveend: (e) => { const m = e.target as L.Map; const c = m.getCenter(); onChange({ center: [c.lat, c.lng], zoom: m.getZoom() }); } });
+  return null;
+};
+
+// Frames the map once per mount (only when there is no remembered viewport): visible memos if any, else the user's position.
+const InitialFrame: React.FC<{ points: [number, number][]; fallback: [number, number] | null }> = ({ points, fallback }) => {
+  const map = useMap(); const framed = useRef(false);
+  useEffect(() => {
+    if (framed.current) return;
+    if (points.length > 0) { map.fitBounds(L.latLngBounds(points), { padding: [40, 40] }); framed.current = true; }
+    else if (fallback) { map.setView(fallback); framed.current = true; }
+  }, [map, points, fallback]);
+  return null;
+};
+
+const categoryIcons = new Map<string, L.DivIcon>();
+
+/** Round marker in the category's colour with its emoji; one cached icon per colour/emoji pair. */
+function categoryIcon(category: NoteLabel | undefined): L.DivIcon {
+  const { color, icon } = category ?? UNCATEGORIZED_STYLE;
+  const key = `${color}|${icon}`;
+  let divIcon = categoryIcons.get(key);
+  if (!divIcon) {
+    // Built through the DOM: colour and emoji come from imports and sync, and must never be parsed as markup.
+    const el = document.createElement("div");
+    el.style.cssText = "width:30px;height:30px;border-radius:50%;border:2px solid #fff;box-shadow:0 1px 4px rgba(0,0,0,.5);display:flex;align-items:center;justify-content:center;font-size:15px;line-height:1";
+    el.style.background = color;
+    el.textContent = icon;
+    divIcon = L.divIcon({
+      className: "",
+      // A string rather than the element, so every marker sharing this cached icon gets its own copy.
+      html: el.outerHTML,
+      iconSize: [30, 30],
+      iconAnchor: [15, 15],
+      popupAnchor: [0, -15],
+    });
+    categoryIcons.set(key, divIcon);
+  }
+  return divIcon;
+}
 
-const MapView: React.FC<{ notes: Note[] }> = ({ notes }) => {
+/** Map key: which marker means what, and a switch per category. */
+const CategoryLegend: React.FC<{ taxonomy: Taxonomy; hidden: string[]; onChange: (hidden: string[]) => void; counts: Map<string, number> }> = ({ taxonomy, hidden, onChange, counts }) => {
+  const [open, setOpen] = useState(false);
+  const entries = [...taxonomy.categories.map((c) => ({ id: c.id, name: c.name, color: c.color, icon: c.icon })), { id: UNCATEGORIZED, name: "Uncategorized", ...UNCATEGORIZED_STYLE }];
+  const toggle = (id: string) => onChange(hidden.includes(id) ? hidden.filter((h) => h !== id) : [...hidden, id]);
+  return (
+    <div className="absolute top-3 right-3 z-[1000] bg-neutral-900/90 border border-neutral-700 rounded-lg text-xs text-neutral-200">
+      <button onClick={() => setOpen((o) => !o)} className="px-3 py-1">{open ? "Hide legend" : `Legend${hidden.length > 0 ? ` (${hidden.length} hidden)` : ""}`}</button>
+      {open ? (
+        <div className="px-3 pb-2 space-y-1">
+          {entries.map((e) => (
+            <label key={e.id || "none"} className="flex items-center gap-2">
+              <input type="checkbox" checked={!hidden.includes(e.id)} onChange={() => toggle(e.id)} />
+              <span className="inline-flex w-5 h-5 rounded-full items-center justify-center" style={{ background: e.color }}>{e.icon}</span>
+              <span className="flex-1">{e.name}</span>
+              <span className="text-neutral-500">{counts.get(e.id) ?? 0}</span>
+            </label>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+const DURATION_MIN_CHOICES = [{ ms: undefined, label: "Any" }, { ms: 10_000, label: "≥ 10 s" }, { ms: 60_000, label: "≥ 1 min" }, { ms: 5 * 60_000, label: "≥ 5 min" }];
+const DURATION_MAX_CHOICES = [{ ms: undefined, label: "Any" }, { ms: 30_000, label: "≤ 30 s" }, { ms: 60_000, label: "≤ 1 min" }, { ms: 5 * 60_000, label: "≤ 5 min" }];
+
+const MapFilterBar: React.FC<{ filter: NoteFilter; onChange: (f: NoteFilter) => void; notes: Note[]; shown: number; onFit: () => void; actions?: React.ReactNode }> = ({ filter, onChange, notes, shown, onFit, actions }) => {
+  const [open, setOpen] = useState(false);
+  const span = useMemo(() => timeSpan(notes), [notes]);
+  const formats = useMemo(() => formatsIn(notes), [notes]);
+  const set = (patch: Partial<NoteFilter>) => onChange({ ...filter, ...patch });
+  const toggleFormat = (f: string) => { const cur = new Set(filter.formats ?? []); if (cur.has(f)) cur.delete(f); else cur.add(f); set({ formats: [...cur] }); };
+  const until = filter.until ?? span?.max ?? 0;
+  return (
+    <div className="px-4 pb-2 text-xs text-neutral-400 space-y-2">
+      <input type="search" value={filter.query ?? ""} onChange={(e) => set({ query: e.target.value || undefined })} placeholder="Search labels and transcripts" className="w-full bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-neutral-100" />
+      <div className="flex items-center gap-3">
+        <span>{shown} of {notes.length} on map</span>
+        <button onClick={() => setOpen((o) => !o)} className={`underline ${isFilterActive(filter) ? "text-neutral-100" : ""}`}>{open ? "Hide filters" : "Filters"}</button>
+        {isFilterActive(filter) ? (<button onClick={() => onChange({ ...EMPTY_FILTER, hiddenCategories: filter.hiddenCategories })} className="underline">Reset</button>) : null}
+        <span className="ml-auto flex gap-3">{actions}<button onClick={onFit} className="underline">Fit to memos</button></span>
+      </div>
+      {span && span.max > span.min ? (
+        <label className="flex items-center gap-2">
+          <input type="range" min={span.min} max={span.max} step={60_000} value={until} onChange={(e) => { const v = Number(e.target.value); set({ until: v >= span.max ? undefined : v }); }} className="flex-1" />
+          <span className="w-32 text-right">{filter.until === undefined ? "All time" : `Until ${new Date(until).toLocaleDateString()}`}</span>
+        </label>
+      ) : null}
+      {open ? (
+        <div className="grid grid-cols-2 gap-2 bg-neutral-900 border border-neutral-800 rounded-lg p-2">
+          <label className="flex flex-col gap-1">From<input type="date" value={filter.fromDate ?? ""} onChange={(e) => set({ fromDate: e.target.value || undefined })} className="bg-neutral-950 border border-neutral-700 rounded px-2 py-1 text-neutral-100" /></label>
+          <label className="flex flex-col gap-1">To<input type="date" value={filter.toDate ?? ""} onChange={(e) => set({ toDate: e.target.value || undefined })} className="bg-neutral-950 border border-neutral-700 rounded px-2 py-1 text-neutral-100" /></label>
+          <label className="flex flex-col gap-1">Min length
+            <select value={filter.minDurationMs ?? ""} onChange={(e) => set({ minDurationMs: e.target.value ? Number(e.target.value) : undefined })} className="bg-neutral-950 border border-neutral-700 rounded px-2 py-1 text-neutral-100">
+              {DURATION_MIN_CHOICES.map((c) => (<option key={c.label} value={c.ms ?? ""}>{c.label}</option>))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">Max length
+            <select value={filter.maxDurationMs ?? ""} onChange={(e) => set({ maxDurationMs: e.target.value ? Number(e.target.value) : undefined })} className="bg-neutral-950 border border-neutral-700 rounded px-2 py-1 text-neutral-100">
+              {DURATION_MAX_CHOICES.map((c) => (<option key={c.label} value={c.ms ?? ""}>{c.label}</option>))}
+            </select>
+          </label>
+          {formats.length > 1 ? (
+            <div className="col-span-2 flex flex-wrap gap-3">
+              {formats.map((f) => (<label key={f} className="flex items-center gap-1"><input type="checkbox" checked={filter.formats?.includes(f) ?? false} onChange={() => toggleFormat(f)} />{f}</label>))}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+const QUALITY_STYLE: Record<LocationQuality, { color: string; opacity: number; label: string }> = {
+  good: { color: "#3b82f6", opacity: 1, label: "" },
+  "low-accuracy": { color: "#f59e0b", opacity: 0.6, label: "Low accuracy" },
+  stale: { color: "#9ca3af", opacity: 0.6, label: "Stale fix" },
+};
+
+const CachedTiles: React.FC<{ source: TileSource }> = ({ source }) => {
+  const map = useMap();
+  useEffect(() => { const layer = new CachedTileLayer(source).addTo(map); layer.bringToBack(); return () => { layer.remove(); }; }, [map, source]);
+  return null;
+};
+
+// Hard ceiling for any single download, whatever the source allows.
+const MAX_TILES_PER_DOWNLOAD = 20_000;
+const CACHE_CAP_CHOICES = [50, 200, 500, 1000].map((mb) => mb * 1024 * 1024);
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(bytes < 10 * 1024 * 1024 ? 1 : 0)} MB`;
+}
+
+const OfflineMapsPanel: React.FC<{ source: TileSource; onSourceChange: (s: TileSource) => void; map: L.Map | null; notes: (Note & { location: NoteLocation })[] }> = ({ source, onSourceChange, map, notes }) => {
+  const [minZoom, setMinZoom] = useState(() => Math.max(0, (map?.getZoom() ?? 13) - 1));
+  const [maxZoom, setMaxZoom] = useState(() => Math.min(source.maxZoom, (map?.getZoom() ?? 13) + 2));
+  const [radiusM, setRadiusM] = useState(500);
+  const [template, setTemplate] = useState(source.urlTemplate);
+  const [attribution, setAttribution] = useState(source.attribution);
+  const [usage, setUsage] = useState<{ bytes: number; count: number; capBytes: number } | null>(null);
+  const [progress, setProgress] = useState<DownloadProgress | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [controller, setController] = useState<AbortController | null>(null);
+  const running = controller !== null;
+
+  const refreshUsage = () => { cacheUsage().then(setUsage).catch((err) => setStatus(`CACHE_ERR: ${err instanceof Error ? err.message : String(err)}`)); };
+  useEffect(refreshUsage, []);
+  useEffect(() => () => controller?.abort(), [controller]);
+
+  const viewTiles = useMemo(() => {
+    if (!map) return [];
+    const b = map.getBounds();
+    return tilesFor([{ south: b.getSouth(), west: b.getWest(), north: b.getNorth(), east: b.getEast() }], minZoom, maxZoom);
+  }, [map, minZoom, maxZoom]);
+  const noteTiles = useMemo(() => tilesFor(boundsAround(notes.map((n) => n.location), radiusM), minZoom, maxZoom), [notes, radiusM, minZoom, maxZoom]);
+  const limit = Math.min(MAX_TILES_PER_DOWNLOAD, source.bulkDownloadLimit ?? Infinity);
+
+  const download = async (tiles: TileCoord[]) => {
+    if (tiles.length > limit) return;
+    const ctrl = new AbortController(); setController(ctrl);
+    setStatus(null); setProgress({ done: 0, total: tiles.length, fetched: 0, skipped: 0, failed: 0 });
+    const result = await downloadTiles(source, tiles, { signal: ctrl.signal, onProgress: setProgress });
+    setController(null);
+    setStatus(ctrl.signal.aborted ? "Download cancelled" : `Done: ${result.fetched} downloaded, ${result.skipped} already cached, ${result.failed} failed`);
+    refreshUsage();
+  };
+
+  const applySource = () => {
+    const err = validateTemplate(template);
+    if (err) { setStatus(err); return; }
+    const preset = PRESET_SOURCES.find((p) => p.urlTemplate === template.trim());
+    const next = preset ?? customTileSource(template, attribution);
+    saveTileSource(next); onSourceChange(next); setStatus(`Using ${next.name} tiles`);
+  };
+
+  const tooMany = (n: number) => n > limit ? `${n} tiles is over the ${limit}-tile limit for ${source.name}${source.bulkDownloadLimit ? " (its usage policy forbids bulk downloads; use a self-hosted source)" : ""}.` : null;
+  const input = "bg-neutral-950 border border-neutral-700 rounded px-2 py-1 text-neutral-100";
+
+  return (
+    <div className="mx-4 mb-2 text-xs text-neutral-300 bg-neutral-900 border border-neutral-800 rounded-lg p-3 space-y-3">
+      <div className="space-y-1">
+        <div className="text-neutral-400">Tile source</div>
+        <input value={template} onChange={(e) => setTemplate(e.target.value)} placeholder="https://tiles.example.org/{z}/{x}/{y}.png" className={`w-full ${input}`} />
+        <input value={attribution} onChange={(e) => setAttribution(e.target.value)} placeholder="Attribution (HTML allowed)" className={`w-full ${input}`} />
+        <div className="flex gap-2">
+          <button onClick={applySource} className="px-2 py-1 rounded border border-neutral-700">Use this source</button>
+          <button onClick={() => { setTemplate(OSM_SOURCE.urlTemplate); setAttribution(OSM_SOURCE.attribution); }} className="underline text-neutral-400">Reset to OpenStreetMap</button>
+        </div>
+      </div>
+      <div className="space-y-1">
+        <div className="text-neutral-400">Download for offline use</div>
+        <div className="flex items-center gap-2">
+          Zoom <input type="number" min={0} max={maxZoom} value={minZoom} onChange={(e) => setMinZoom(Number(e.target.value))} className={`w-14 ${input}`} />
+          to <input type="number" min={minZoom} max={source.maxZoom} value={maxZoom} onChange={(e) => setMaxZoom(Number(e.target.value))} className={`w-14 ${input}`} />
+        </div>
+        <div className="flex items-center gap-2">
+          <button disabled={running || !map || viewTiles.length > limit} onClick={() => download(viewTiles)} className="px-2 py-1 rounded border border-neutral-700 disabled:opacity-40">Visible area ({viewTiles.length})</button>
+          <button disabled={running || notes.length === 0 || noteTiles.length > limit} onClick={() => download(noteTiles)} className="px-2 py-1 rounded border border-neutral-700 disabled:opacity-40">Around my memos ({noteTiles.length})</button>
+          <select value={radiusM} onChange={(e) => setRadiusM(Number(e.target.value))} className={input}>
+            {[250, 500, 1000, 2000].map((m) => (<option key={m} value={m}>{m < 1000 ? `${m} m` : `${m / 1000} km`}</option>))}
+          </select>
+        </div>
+        {tooMany(Math.max(viewTiles.length, noteTiles.length)) ? (<div className="text-amber-400">{tooMany(Math.max(viewTiles.length, noteTiles.length))}</div>) : null}
+        {running && progress ? (
+          <div className="flex items-center gap-2">
+            <progress value={progress.done} max={progress.total} className="flex-1" />
+            <span>{progress.done}/{progress.total}</span>
+            <button onClick={() => controller?.abort()} className="underline">Cancel</button>
+          </div>
+        ) : null}
+      </div>
+      <div className="flex items-center gap-2">
+        <span>Cache: {usage ? `${formatBytes(usage.bytes)} in ${usage.count} tiles` : "…"}</span>
+        <select value={usage?.capBytes ?? getCacheCap()} onChange={async (e) => { await setCacheCap(Number(e.target.value)); refreshUsage(); }} className={`ml-auto ${input}`}>
+          {CACHE_CAP_CHOICES.map((b) => (<option key={b} value={b}>Max {formatBytes(b)}</option>))}
+        </select>
+        <button onClick={async () => { await clearTileCache(); refreshUsage(); }} className="underline">Clear</button>
+      </div>
+      {status ? (<div className="text-neutral-400">{status}</div>) : null}
+    </div>
+  );
+};
+
+const WALK_RADIUS_KEY = "gv.walkRadiusM";
+const WALK_RADIUS_CHOICES = [10, 25, 50, 100];
+// Long enough that circling a block does not replay the same memo.
+const WALK_COOLDOWN_MS = 30 * 60_000;
+
+/**
+ * Walk mode: watches position while `active` and plays memos in `targets` as the
+ * user reaches them, one at a time through the map's own <audio> element.
+ */
+function useWalkMode(active: boolean, targets: (Note & { location: NoteLocation })[], radiusM: number, play: (note: Note) => Promise<boolean>, audioRef: React.RefObject<HTMLAudioElement | null>) {
+  const geofence = useMemo(() => new Geofence(), []);
+  const queue = useMemo(() => new WalkQueue({ cooldownMs: WALK_COOLDOWN_MS }), []);
+  const walk = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+  const [fix, setFix] = useState<PositionFix | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const byId = useRef(new Map<string, Note>());
+  const playRef = useRef(play);
+  useEffect(() => { playRef.current = play; }, [play]);
+  useEffect(() => { geofence.setOptions({ radiusM }); }, [geofence, radiusM]);
+  useEffect(() => {
+    byId.current = new Map(targets.map((n) => [n.id, n]));
+    geofence.setTargets(targets.map((n) => ({ id: n.id, lat: n.location.lat, lon: n.location.lon })));
+  }, [geofence, targets]);
+
+  // Starts `id`, moving on down the queue past anything that will not play.
+  const run = useMemo(() => async (id: string | null) => {
+    while (id) {
+      const note = byId.current.get(id);
+      if (note && (await playRef.current(note))) return;
+      id = queue.finished(id);
+    }
+  }, [queue]);
+
+  useEffect(() => {
+    if (!active) return;
+    let stopped = false;
+    let watchId: string | null = null;
+    setError(null);
+    Geolocation.watchPosition({ enableHighAccuracy: true, maximumAge: 0 }, (pos) => {
+      if (stopped || !pos) return;
+      const f: PositionFix = { lat: pos.coords.latitude, lon: pos.coords.longitude, accuracyM: pos.coords.accuracy, at: pos.timestamp };
+      setFix(f);
+      void run(queue.handle(geofence.update(f)));
+    }).then((id) => { if (stopped) void Geolocation.clearWatch({ id }); else watchId = id; }, (err) => setError(err instanceof Error ? err.message : String(err)));
+    const a = audioRef.current;
+    const onEnded = () => { const current = queue.getSnapshot().playing; if (current) void run(queue.finished(current)); };
+    a?.addEventListener("ended", onEnded);
+    return () => {
+      stopped = true;
+      if (watchId) void Geolocation.clearWatch({ id: watchId });
+      a?.removeEventListener("ended", onEnded);
+      geofence.reset(); queue.clear(); setFix(null);
+    };
+  }, [active, audioRef, geofence, queue, run]);
+
+  const skip = () => {
+    const current = walk.playing;
+    if (!current) return;
+    audioRef.current?.pause();
+    void run(queue.finished(current));
+  };
+
+  return { walk, fix, error, skip };
+}
+
+const MapView: React.FC<{ notes: Note[]; taxonomy: Taxonomy; onUpdated: (n: Note) => void; memory: React.RefObject<MapMemory>; search: SearchIndex }> = ({ notes, taxonomy, onUpdated, memory, search }) => {
   const [coords, setCoords] = useState<{ lat: number; lon: number } | null>(null);
+  const [map, setMap] = useState<L.Map | null>(null);
+  const [restored] = useState(() => memory.current.viewport);
+  const [zoom, setZoom] = useState(restored?.zoom ?? 13);
+  const [filter, setFilter] = useState<NoteFilter>(() => memory.current.filter);
+  const [tileSource, setTileSource] = useState<TileSource>(loadTileSource);
+  const [showOffline, setShowOffline] = useState(false);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener("online", update); window.addEventListener("offline", update);
+    return () => { window.removeEventListener("online", update); window.removeEventListener("offline", update); };
+  }, []);
+  useEffect(() => { memory.current.filter = filter; }, [memory, filter]);
+  const [placing, setPlacing] = useState<{ note: Note; pos: [number, number] } | null>(null);
+  const [placeStatus, setPlaceStatus] = useState<string | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   useEffect(() => { (async () => { try { const pos = await Geolocation.getCurrentPosition({ enableHighAccuracy: true }); setCoords({ lat: pos.coords.latitude, lon: pos.coords.longitude }); } catch { setCoords(null); } })(); }, []);
-  const located = useMemo(() => notes.filter(n => !(n.lat === 0 && n.lon === 0)), [notes]);
-  const unlocated = useMemo(() => notes.filter(n => (n.lat === 0 && n.lon === 0)), [notes]);
-  const center = useMemo<[number, number]>(() => { if (coords) return [coords.lat, coords.lon]; if (located.length > 0) return [located[0].lat, located[0].lon]; return [42.2808, -83.743]; }, [coords, located]);
-  const onPlay = (note: Note) => { if (!audioRef.current) return; const a = audioRef.current; a.pause(); a.src = note.webPath; a.currentTime = 0; a.load(); a.play().catch(err => console.warn('play failed:', err)); };
+  const located = useMemo(() => notes.filter((n): n is Note & { location: NoteLocation } => !!n.location), [notes]);
+  const unlocated = useMemo(() => notes.filter(n => !n.location), [notes]);
+  const hits = useMemo(() => (filter.query?.trim() ? search.search(filter.query) : []), [search, filter.query]);
+  const matches = useMemo(() => new Set(hits.map((h) => h.id)), [hits]);
+  const snippets = useMemo(() => new Map(hits.map((h) => [h.id, h.snippet])), [hits]);
+  const categoryIds = useMemo(() => new Set(taxonomy.categories.map((c) => c.id)), [taxonomy]);
+  const visible = useMemo(() => applyNoteFilter(located, filter, matches, categoryIds), [located, filter, matches, categoryIds]);
+  // Per-category counts before the legend's own switches apply, so hidden categories still show theirs.
+  const categoryCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const n of applyNoteFilter(located, { ...filter, hiddenCategories: undefined }, matches, categoryIds)) {
+      const id = n.categoryId && categoryIds.has(n.categoryId) ? n.categoryId : UNCATEGORIZED;
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+    return counts;
+  }, [located, filter, matches, categoryIds]);
+  const visiblePoints = useMemo(() => visible.map((n) => [n.location.lat, n.location.lon] as [number, number]), [visible]);
+  const userPos = useMemo<[number, number] | null>(() => (coords ? [coords.lat, coords.lon] : null), [coords]);
+  const onViewport = (v: MapViewport) => { memory.current.viewport = v; setZoom(v.zoom); };
+  const fitToVisible = () => { if (map && visiblePoints.length > 0) map.fitBounds(L.latLngBounds(visiblePoints), { padding: [40, 40] }); };
+  const { play: onPlay, playingId } = useNotePlayer(audioRef);
+  const [walking, setWalking] = useState(false);
+  const [walkRadiusM, setWalkRadiusM] = useState(() => Number(localStorage.getItem(WALK_RADIUS_KEY)) || 25);
+  useEffect(() => { localStorage.setItem(WALK_RADIUS_KEY, String(walkRadiusM)); }, [walkRadiusM]);
+  const walkTargets = useMemo(() => visible.filter(hasAudio), [visible]);
+  const { walk, fix: walkFix, error: walkError, skip: skipWalk } = useWalkMode(walking, walkTargets, walkRadiusM, onPlay, audioRef);
+  const walkPlaying = walk.playing ? notes.find((n) => n.id === walk.playing) : undefined;
+  const playhead = usePlayhead(audioRef, playingId !== null);
+  const playingTrack = useMemo(() => notes.find((n) => n.id === playingId)?.track, [notes, playingId]);
+  const trackCursor = playingTrack ? positionAt(playingTrack, playhead) : null;
+
+  // Tapping a walking memo's route jumps the audio to when the speaker was there.
+  const seekOnTrack = (note: Note, at: L.LatLng) => {
+    const p = note.track ? nearestPoint(note.track, { lat: at.lat, lon: at.lng }) : null;
+    if (p) void onPlay(note, p.t);
+  };
+
+  const startPlacing = (note: Note) => {
+    const c = map?.getCenter();
+    setPlaceStatus(null); setPlacing({ note, pos: note.location ? [note.location.lat, note.location.lon] : c ? [c.lat, c.lng] : userPos ?? DEFAULT_CENTER });
+  };
+  const savePlacement = async () => {
+    if (!placing) return;
+    const next: Note = { ...placing.note, location: manualLocation(placing.pos[0], placing.pos[1], Date.parse(placing.note.createdAt)) };
+    try { await updateNote(next); onUpdated(next); setPlacing(null); } catch (err) { setPlaceStatus(`SAVE_ERR: ${err instanceof Error ? err.message : String(err)}`); }
+  };
+
   return (
     <div className="min-h-screen bg-neutral-950 text-neutral-50 flex flex-col">
       <header className="p-4 text-center font-medium text-neutral-200 tracking-wide">Your Memos</header>
+      <MapFilterBar filter={filter} onChange={setFilter} notes={located} shown={visible.length} onFit={fitToVisible} actions={<>
+        <button onClick={() => setWalking((w) => !w)} className={walking ? "underline text-emerald-400" : "underline"}>Walk mode</button>
+        <button onClick={() => setShowOffline((o) => !o)} className="underline">{online ? "Offline maps" : "Offline · cached tiles"}</button>
+      </>} />
+      {walking ? (
+        <div className="px-4 pb-2 flex items-center gap-2 text-xs text-neutral-300">
+          <span>Plays memos within</span>
+          <select value={walkRadiusM} onChange={(e) => setWalkRadiusM(Number(e.target.value))} className="bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-neutral-100">
+            {WALK_RADIUS_CHOICES.map((m) => (<option key={m} value={m}>{m} m</option>))}
+          </select>
+          <span className="text-neutral-500">
+            {walkError ? `GPS_ERR: ${walkError}` : !walkFix ? "Waiting for GPS…" : walkPlaying ? `Playing ${noteTitle(walkPlaying)}` : `${walkTargets.length} memo${walkTargets.length === 1 ? "" : "s"} armed`}
+            {walk.queued.length > 0 ? ` · ${walk.queued.length} queued` : ""}
+          </span>
+          {walk.playing ? (<button onClick={skipWalk} className="ml-auto underline">Skip</button>) : null}
+        </div>
+      ) : null}
+      {showOffline ? (<OfflineMapsPanel source={tileSource} onSourceChange={setTileSource} map={map} notes={located} />) : null}
       <div className="flex-1 relative">
-        <MapContainer center={[42.2808, -83.743]} zoom={13} style={{height:'70vh', width:'100%'}}>
-          <TileLayer attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>' url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png" />
-          <Recenter lat={center[0]} lon={center[1]} />
-          {located.length > 0 && (<FitBounds points={located.map(n => [n.lat, n.lon]) as [number, number][]} />)}
-          {located.map((n) => (
-            <Marker key={n.id} position={[n.lat, n.lon]}>
-              <Popup>
-                <div className="text-sm font-medium mb-1">{n.label || new Date(n.createdAt).toLocaleString()}</div>
-                <div className="text-xs text-neutral-500 mb-2">{n.mimeType?.replace("audio/", "").toUpperCase()} · {n.durationMs ? msToClock(n.durationMs) : ""}</div>
-                <button onClick={() => onPlay(n)} className="px-3 py-1 rounded bg-neutral-900 border border-neutral-700 text-neutral-100 text-sm">Play</button>
-              </Popup>
-            </Marker>
+        <MapContainer ref={setMap} center={restored?.center ?? DEFAULT_CENTER} zoom={restored?.zoom ?? 13} style={{height:'70vh', width:'100%'}}>
+          <CachedTiles source={tileSource} />
+          <ViewportTracker onChange={onViewport} />
+          {!restored && (<InitialFrame points={visiblePoints} fallback={userPos} />)}
+          {zoom >= DETAIL_MIN_ZOOM && visible.filter((n) => n.id !== placing?.note.id).map((n) => n.location.accuracyM ? (
+            <Circle key={`acc-${n.id}`} center={[n.location.lat, n.location.lon]} radius={n.location.accuracyM} pathOptions={{ color: QUALITY_STYLE[locationQuality(n.location)].color, weight: 1, fillOpacity: 0.08 }} />
+          ) : null)}
+          <MarkerClusterGroup chunkedLoading showCoverageOnHover={false} maxClusterRadius={50}>
+            {visible.filter((n) => n.id !== placing?.note.id).map((n) => {
+              const style = QUALITY_STYLE[locationQuality(n.location)];
+              return (
+                <Marker key={n.id} position={[n.location.lat, n.location.lon]} opacity={style.opacity} icon={categoryIcon(categoryOf(n, taxonomy))}>
+                  <Popup>
+                    <div className="text-sm font-medium mb-1">{noteTitle(n)}</div>
+                    <div className="text-xs text-neutral-500 mb-1">{n.mimeType?.replace("audio/", "").toUpperCase()} · {n.durationMs ? msToClock(n.durationMs) : ""}</div>
+                    <div className="text-xs text-neutral-500 mb-2">{style.label ? (<span style={{ color: style.color }}>{style.label} · </span>) : null}{describeLocation(n.location)}</div>
+                    {tagsOf(n, taxonomy).length > 0 ? (<div className="flex flex-wrap gap-1 mb-2">{tagsOf(n, taxonomy).map((t) => (<LabelChip key={t.id} label={t} />))}</div>) : null}
+                    {snippets.has(n.id) ? (<div className="text-xs italic mb-2">“{snippets.get(n.id)}”</div>) : null}
+                    <div className="flex gap-2">
+                      <button onClick={() => onPlay(n)} disabled={!hasAudio(n)} className="px-3 py-1 rounded bg-neutral-900 border border-neutral-700 text-neutral-100 text-sm disabled:opacity-40">Play</button>
+                      <button onClick={() => startPlacing(n)} className="px-3 py-1 rounded border border-neutral-700 text-sm">Move pin</button>
+                    </div>
+                  </Popup>
+                </Marker>
+              );
+            })}
+          </MarkerClusterGroup>
+          {visible.filter((n): n is typeof n & { track: TrackPoint[] } => !!n.track && n.track.length > 1 && (zoom >= DETAIL_MIN_ZOOM || n.id === playingId)).map((n) => (
+            <Polyline key={`track-${n.id}`} positions={n.track.map((p) => [p.lat, p.lon] as [number, number])} pathOptions={{ color: n.id === playingId ? "#ef4444" : "#6366f1", weight: 4, opacity: 0.8 }} eventHandlers={{ click: (e) => seekOnTrack(n, e.latlng) }} />
           ))}
+          {walkFix ? (<Circle center={[walkFix.lat, walkFix.lon]} radius={walkRadiusM} pathOptions={{ color: "#10b981", weight: 1, fillOpacity: 0.1 }} />) : null}
+          {walkFix ? (<CircleMarker center={[walkFix.lat, walkFix.lon]} radius={6} pathOptions={{ color: "#fff", weight: 2, fillColor: "#10b981", fillOpacity: 1 }} />) : null}
+          {trackCursor ? (<CircleMarker center={trackCursor} radius={7} pathOptions={{ color: "#fff", weight: 2, fillColor: "#ef4444", fillOpacity: 1 }} />) : null}
+          {placing ? (
+            <Marker position={placing.pos} draggable eventHandlers={{ dragend: (e) => { const ll = (e.target as L.Marker).getLatLng(); setPlacing((p) => (p ? { ...p, pos: [ll.lat, ll.lng] } : p)); } }} />
+          ) : null}
         </MapContainer>
-        {unlocated.length > 0 && (
-          <div className="absolute left-3 right-3 bottom-20 bg-neutral-900/90 border border-neutral-700 rounded-xl p-3 text-sm">
-            <div className="mb-2">Saved {unlocated.length} memo{unlocated.length>1?'s':''} without location. They won't show on the map until location is allowed. You can still play them here:</div>
-            <div className="flex gap-2 flex-wrap">{unlocated.slice(0, 5).map((n) => (<button key={n.id} onClick={() => onPlay(n)} className="px-3 py-1 rounded border border-neutral-700 hover:bg-neutral-800">{n.label || new Date(n.createdAt).toLocaleString()}</button>))}</div>
+        <CategoryLegend taxonomy={taxonomy} hidden={filter.hiddenCategories ?? []} onChange={(hidden) => setFilter((f) => ({ ...f, hiddenCategories: hidden.length > 0 ? hidden : undefined }))} counts={categoryCounts} />
+        {placing ? (
+          <div className="absolute left-3 right-3 bottom-20 z-[1000] bg-neutral-900/95 border border-neutral-700 rounded-xl p-3 text-sm space-y-2">
+            <div>Drag the pin to where “{noteTitle(placing.note)}” was recorded.</div>
+            <div className="flex gap-2">
+              <button onClick={savePlacement} className="px-3 py-1 rounded bg-neutral-800 border border-neutral-600">Save location</button>
+              <button onClick={() => setPlacing(null)} className="px-3 py-1 rounded border border-neutral-700">Cancel</button>
+              {placeStatus ? (<span className="text-xs text-red-400 self-center">{placeStatus}</span>) : null}
+            </div>
+          </div>
+        ) : unlocated.length > 0 && (
+          <div className="absolute left-3 right-3 bottom-20 z-[1000] bg-neutral-900/90 border border-neutral-700 rounded-xl p-3 text-sm">
+            <div className="mb-2">Saved {unlocated.length} memo{unlocated.length>1?'s':''} without location. Play them here, or place them on the map by hand:</div>
+            <div className="flex flex-col gap-2">{unlocated.slice(0, 5).map((n) => (
+              <div key={n.id} className="flex gap-2 items-center">
+                <button onClick={() => onPlay(n)} disabled={!hasAudio(n)} className="px-3 py-1 rounded border border-neutral-700 hover:bg-neutral-800 disabled:opacity-40">{noteTitle(n)}</button>
+                <button onClick={() => startPlacing(n)} className="text-xs text-neutral-400 underline">Place on map</button>
+              </div>
+            ))}</div>
           </div>
         )}
         <audio ref={audioRef} preload="none" />
@@ -362,19 +1190,417 @@ const MapView: React.FC<{ notes: Note[] }> = ({ notes }) => {
   );
 };
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Library View (list + detail)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const TranscriptSection: React.FC<{ note: Note; transcript?: Transcript; job?: TranscriptionJob }> = ({ note, transcript, job }) => {
+  if (!hasAudio(note)) return null;
+  const action = (label: string) => (<button onClick={() => transcriber.retry(note.id)} className="underline">{label}</button>);
+  let state: React.ReactNode;
+  if (job?.state === "running") state = "Transcribing…";
+  else if (job?.state === "pending") state = (<>{job.attempts > 0 ? `Waiting to retry (${job.attempts} failed: ${job.lastError})` : getTranscriptionSettings().provider === "off" ? "Queued; set up a provider in Transcription settings" : "Queued"} · {action("Retry now")}</>);
+  else if (job?.state === "failed") state = (<span className="text-red-400">TRANSCRIBE_ERR: {job.lastError} · {action("Retry")}</span>);
+  else if (!transcript) state = (<>No transcript · {action("Transcribe")}</>);
+  return (
+    <div className="text-xs space-y-1">
+      <div className="text-neutral-400">Transcript{transcript ? ` · ${transcript.provider}${transcript.language ? ` · ${transcript.language}` : ""}` : ""}</div>
+      {transcript ? (<p className="text-sm text-neutral-200 whitespace-pre-wrap">{transcript.text || "(no speech detected)"}</p>) : null}
+      {state ? (<div className="text-neutral-500">{state}</div>) : transcript ? (<div className="text-neutral-500">{action("Transcribe again")}</div>) : null}
+    </div>
+  );
+};
+
+const WAVEFORM_BUCKETS = 120;
+
+/** Peak bars with the playhead over them; while trimming, the parts outside `keep` are dimmed. Clicking seeks. */
+const Waveform: React.FC<{ peaks: number[]; durationMs: number; positionMs: number | null; keep?: TrimRange | null; onSeek?: (ms: number) => void }> = ({ peaks, durationMs, positionMs, keep, onSeek }) => {
+  const n = peaks.length;
+  const at = (ms: number) => (durationMs > 0 ? (ms / durationMs) * n : 0);
+  const seek = (e: React.MouseEvent<SVGSVGElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    onSeek?.(Math.max(0, Math.min(1, (e.clientX - box.left) / box.width)) * durationMs);
+  };
+  return (
+    <svg viewBox={`0 0 ${n} 100`} preserveAspectRatio="none" onClick={seek} className="w-full h-16 bg-neutral-900 rounded cursor-pointer" role="img" aria-label="Waveform">
+      {peaks.map((p, i) => {
+        const h = Math.max(1, p * 96);
+        const kept = !keep || (i + 1 > at(keep.startMs) && i < at(keep.endMs));
+        return (<rect key={i} x={i + 0.15} width={0.7} y={50 - h / 2} height={h} fill={kept ? "#d4d4d4" : "#404040"} />);
+      })}
+      {positionMs !== null ? (<line x1={at(positionMs)} x2={at(positionMs)} y1={0} y2={100} stroke="#ef4444" strokeWidth={0.5} vectorEffect="non-scaling-stroke" />) : null}
+    </svg>
+  );
+};
+
+const NoteDetail: React.FC<{ note: Note; taxonomy: Taxonomy; transcript?: Transcript; job?: TranscriptionJob; onBack: () => void; onUpdated: (n: Note) => void; onDeleted: (n: Note) => void; onTaxonomy: (u: TaxonomyUpdate) => void }> = ({ note, taxonomy, transcript, job, onBack, onUpdated, onDeleted, onTaxonomy }) => {
+  const [label, setLabel] = useState(note.label ?? "");
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const dirty = label.trim() !== (note.label ?? "");
+
+  const save = async () => {
+    setBusy(true);
+    try {
+      const next = await patchNote(note.id, { label: label.trim() || undefined });
+      if (next) onUpdated(next);
+      setStatus("Saved"); setTimeout(() => setStatus(null), 1200);
+    } catch (err) {
+      setStatus(`SAVE_ERR: ${err instanceof Error ? err.message : String(err)}`);
+    } finally { setBusy(false); }
+  };
+
+  const remove = async () => {
+    if (!window.confirm(`Delete "${noteTitle(note)}"? This removes the audio file too.`)) return;
+    setBusy(true);
+    try {
+      audioRef.current?.pause();
+      await deleteNote(note); onDeleted(note);
+    } catch (err) {
+      setBusy(false); setStatus(`DELETE_ERR: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const { play, unload, playingId } = useNotePlayer(audioRef);
+  const onPlay = () => { void play(note); };
+  const positionMs = usePlayhead(audioRef, playingId === note.id);
+
+  // Decoded audio for the waveform and trimming; redone when the audio is replaced.
+  const [pcm, setPcm] = useState<Pcm | null>(null);
+  const [waveError, setWaveError] = useState<string | null>(null);
+  useEffect(() => {
+    if (!hasAudio(note)) return;
+    let cancelled = false;
+    setPcm(null); setWaveError(null);
+    loadNotePcm(note).then((p) => { if (!cancelled) setPcm(p); }, (err) => { if (!cancelled) setWaveError(err instanceof Error ? err.message : String(err)); });
+    return () => { cancelled = true; };
+  }, [note]);
+  const peaks = useMemo(() => (pcm ? computePeaks(pcm.samples, WAVEFORM_BUCKETS) : null), [pcm]);
+  const totalMs = pcm ? pcmDurationMs(pcm) : 0;
+
+  // Trim editor: null while not editing.
+  const [keep, setKeep] = useState<TrimRange | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  useEffect(() => {
+    if (previewing && keep && positionMs >= keep.endMs) { audioRef.current?.pause(); setPreviewing(false); }
+  }, [previewing, keep, positionMs]);
+
+  const findSpeech = () => {
+    if (!pcm) return;
+    const range = detectSpeech(pcm);
+    if (range) setKeep(range); else setStatus("No speech found; nothing to cut");
+  };
+
+  const applyTrim = async () => {
+    if (!keep || !pcm) return;
+    if (!window.confirm(`Keep ${msToClock(keep.endMs - keep.startMs)} of ${msToClock(totalMs)}? The rest of the recording is discarded.`)) return;
+    setBusy(true); unload(); setPreviewing(false);
+    try {
+      const next = await trimNote(note, keep, pcm);
+      onUpdated(next); setKeep(null);
+      setStatus(`Trimmed to ${msToClock(next.durationMs ?? 0)}`);
+    } catch (err) {
+      setStatus(`TRIM_ERR: ${err instanceof Error ? err.message : String(err)}`);
+    } finally { setBusy(false); }
+  };
+
+  return (
+    <div className="w-full max-w-sm space-y-3 text-sm">
+      <button onClick={onBack} className="text-xs text-neutral-400 underline">← All memos</button>
+      <label className="block">
+        <span className="text-xs text-neutral-400">Label</span>
+        <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder={new Date(note.createdAt).toLocaleString()} className="mt-1 w-full px-3 py-2 rounded bg-neutral-900 border border-neutral-700 text-neutral-100" />
+      </label>
+      <div className="text-xs text-neutral-500 space-y-1">
+        <div>Recorded {new Date(note.createdAt).toLocaleString()}</div>
+        <div>{hasAudio(note) ? `${note.mimeType?.replace("audio/", "").toUpperCase()} · ${note.durationMs ? msToClock(note.durationMs) : "–"}` : "Imported place, no audio"}</div>
+        <div>{note.location ? describeLocation(note.location) : "No location"}</div>
+      </div>
+      <div className="flex gap-2">
+        <button onClick={onPlay} disabled={!hasAudio(note)} className="px-3 py-1 rounded bg-neutral-900 border border-neutral-700 text-neutral-100 disabled:opacity-40">Play</button>
+        <button onClick={save} disabled={busy || !dirty} className="px-3 py-1 rounded border border-neutral-700 disabled:opacity-40">Save</button>
+        <button onClick={remove} disabled={busy} className="ml-auto px-3 py-1 rounded border border-red-700 text-red-400 disabled:opacity-40">Delete</button>
+      </div>
+      {peaks ? (
+        <Waveform peaks={peaks} durationMs={totalMs} positionMs={playingId === note.id ? positionMs : null} keep={keep} onSeek={(ms) => { setPreviewing(false); void play(note, ms); }} />
+      ) : hasAudio(note) ? (<div className="h-16 flex items-center justify-center text-xs text-neutral-500 bg-neutral-900 rounded">{waveError ? `No waveform: ${waveError}` : "Loading waveform…"}</div>) : null}
+      {keep ? (
+        <div className="text-xs text-neutral-400 space-y-2 bg-neutral-900 border border-neutral-800 rounded-lg p-3">
+          <label className="flex items-center gap-2">Start
+            <input type="range" min={0} max={totalMs} step={10} value={keep.startMs} onChange={(e) => setKeep({ ...keep, startMs: Math.min(Number(e.target.value), keep.endMs) })} className="flex-1" />
+            <span className="w-12 text-right">{msToClock(keep.startMs)}</span>
+          </label>
+          <label className="flex items-center gap-2">End
+            <input type="range" min={0} max={totalMs} step={10} value={keep.endMs} onChange={(e) => setKeep({ ...keep, endMs: Math.max(Number(e.target.value), keep.startMs) })} className="flex-1" />
+            <span className="w-12 text-right">{msToClock(keep.endMs)}</span>
+          </label>
+          <div className="flex items-center gap-3">
+            <button onClick={findSpeech} className="underline">Cut silence</button>
+            <button onClick={() => { setPreviewing(true); void play(note, keep.startMs); }} className="underline">Preview</button>
+            <button onClick={() => setKeep(null)} className="underline">Cancel</button>
+            <button onClick={applyTrim} disabled={busy || keep.endMs - keep.startMs < 300} className="ml-auto px-2 py-1 rounded border border-neutral-700 text-neutral-100 disabled:opacity-40">Trim to {msToClock(keep.endMs - keep.startMs)}</button>
+          </div>
+        </div>
+      ) : pcm ? (<button onClick={() => setKeep({ startMs: 0, endMs: totalMs })} disabled={busy} className="text-xs text-neutral-400 underline">Trim…</button>) : null}
+      <LabelPicker note={note} taxonomy={taxonomy} onUpdated={onUpdated} onTaxonomy={onTaxonomy} />
+      <div className="h-4 text-xs text-neutral-400">{status ?? ""}</div>
+      <TranscriptSection note={note} transcript={transcript} job={job} />
+      <audio ref={audioRef} preload="none" />
+    </div>
+  );
+};
+
+const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "bundle", label: "Library bundle (.zip, with audio)" },
+  { value: "geojson", label: "GeoJSON" },
+  { value: "gpx", label: "GPX waypoints" },
+  { value: "kml", label: "KML placemarks" },
+];
+
+const ExchangeBar: React.FC<{ notes: Note[]; onTaxonomy: (u: TaxonomyUpdate) => void }> = ({ notes, onTaxonomy }) => {
+  const [format, setFormat] = useState<ExportFormat>("bundle");
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const onExport = async () => {
+    setBusy(true); setStatus("Exporting…");
+    try {
+      setStatus(await deliverExport(await buildExport(format, notes)));
+    } catch (err) {
+      setStatus(`EXPORT_ERR: ${err instanceof Error ? err.message : String(err)}`);
+    } finally { setBusy(false); }
+  };
+
+  const onImport = async (file: File | undefined) => {
+    if (!file) return;
+    setBusy(true); setStatus(`Importing ${file.name}…`);
+    try {
+      const report = await importFile(file);
+      onTaxonomy({ taxonomy: report.taxonomy, notes: report.notes });
+      const parts = [`Added ${report.added.length}`, `updated ${report.updated.length}`, `${report.duplicates.length} duplicate${report.duplicates.length === 1 ? "" : "s"} skipped`];
+      if (report.withoutAudio > 0) parts.push(`${report.withoutAudio} without audio`);
+      if (report.rejected > 0) parts.push(`${report.rejected} rejected`);
+      setStatus(parts.join(", "));
+    } catch (err) {
+      setStatus(`IMPORT_ERR: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setBusy(false);
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="px-4 pb-2 text-xs text-neutral-400 space-y-1">
+      <div className="flex items-center gap-2">
+        <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className="bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-neutral-100">
+          {EXPORT_FORMATS.map((f) => (<option key={f.value} value={f.value}>{f.label}</option>))}
+        </select>
+        <button onClick={onExport} disabled={busy || notes.length === 0} className="underline disabled:opacity-40">Export</button>
+        <button onClick={() => fileRef.current?.click()} disabled={busy} className="ml-auto underline disabled:opacity-40">Import…</button>
+        <input ref={fileRef} type="file" accept=".zip,.geojson,.json,.gpx" className="hidden" onChange={(e) => void onImport(e.target.files?.[0])} />
+      </div>
+      {status ? (<div>{status}</div>) : null}
+    </div>
+  );
+};
+
+const TranscriptionSettingsPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [draft, setDraft] = useState<TranscriptionSettings>(getTranscriptionSettings);
+  const [error, setError] = useState<string | null>(null);
+  const set = (patch: Partial<TranscriptionSettings>) => setDraft((d) => ({ ...d, ...patch }));
+  const save = () => {
+    if (draft.provider === "http") {
+      try { new URL(draft.endpoint); } catch { setError("Endpoint must be a full URL, e.g. http://192.168.1.10:8000/v1/audio/transcriptions"); return; }
+    }
+    saveTranscriptionSettings(draft); onClose();
+  };
+  const input = "w-full bg-neutral-950 border border-neutral-700 rounded px-2 py-1 text-neutral-100";
+  return (
+    <div className="mx-4 mb-2 text-xs text-neutral-300 bg-neutral-900 border border-neutral-800 rounded-lg p-3 space-y-2">
+      <label className="flex items-center gap-2">Provider
+        <select value={draft.provider} onChange={(e) => set({ provider: e.target.value as TranscriptionSettings["provider"] })} className="bg-neutral-950 border border-neutral-700 rounded px-2 py-1 text-neutral-100">
+          <option value="off">Off</option>
+          <option value="http">Speech-to-text server</option>
+          <option value="stub">Stub (testing)</option>
+        </select>
+      </label>
+      {draft.provider === "http" ? (
+        <>
+          <input value={draft.endpoint} onChange={(e) => set({ endpoint: e.target.value })} placeholder="http://host:8000/v1/audio/transcriptions" className={input} />
+          <input value={draft.apiKey} onChange={(e) => set({ apiKey: e.target.value })} placeholder="API key (optional)" type="password" className={input} />
+          <div className="flex gap-2">
+            <input value={draft.model} onChange={(e) => set({ model: e.target.value })} placeholder="Model (optional)" className={input} />
+            <input value={draft.language} onChange={(e) => set({ language: e.target.value })} placeholder="Language, e.g. en" className={input} />
+          </div>
+        </>
+      ) : null}
+      <label className="flex items-center gap-2"><input type="checkbox" checked={draft.auto} onChange={(e) => set({ auto: e.target.checked })} />Transcribe new recordings automatically</label>
+      <div className="flex items-center gap-3">
+        <button onClick={save} className="px-2 py-1 rounded border border-neutral-700">Save</button>
+        <button onClick={onClose} className="underline text-neutral-400">Cancel</button>
+        {error ? (<span className="text-red-400">{error}</span>) : null}
+      </div>
+    </div>
+  );
+};
+
+const SyncPanel: React.FC<{ sync: SyncSnapshot; onClose: () => void }> = ({ sync, onClose }) => {
+  const [draft, setDraft] = useState<SyncSettings>(getSyncSettings);
+  const [error, setError] = useState<string | null>(null);
+  const set = (patch: Partial<SyncSettings>) => setDraft((d) => ({ ...d, ...patch }));
+  const save = () => {
+    if (draft.serverUrl) {
+      try { new URL(draft.serverUrl); } catch { setError("Server must be a full URL, e.g. http://192.168.1.10:8787"); return; }
+    }
+    saveSyncSettings({ serverUrl: draft.serverUrl.trim(), token: draft.token.trim() }); onClose();
+  };
+  const input = "w-full bg-neutral-950 border border-neutral-700 rounded px-2 py-1 text-neutral-100";
+  return (
+    <div className="mx-4 mb-2 text-xs text-neutral-300 bg-neutral-900 border border-neutral-800 rounded-lg p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <span>{syncStatusText(sync)}</span>
+        {sync.phase !== "off" ? (<button onClick={() => void syncer.sync()} disabled={sync.phase === "syncing"} className="ml-auto underline disabled:opacity-40">Sync now</button>) : null}
+      </div>
+      {sync.lastError && sync.phase === "error" ? (<div className="text-red-400">{sync.lastError}</div>) : null}
+      <input value={draft.serverUrl} onChange={(e) => set({ serverUrl: e.target.value })} placeholder="Sync server, e.g. http://192.168.1.10:8787 (empty = off)" className={input} />
+      <input value={draft.token} onChange={(e) => set({ token: e.target.value })} placeholder="Token (if the server asks for one)" type="password" className={input} />
+      <div className="text-neutral-500">Run your own with <code>npm run sync-server</code>. Changes made offline are kept and sent on the next sync.</div>
+      <div className="flex items-center gap-3">
+        <button onClick={save} className="px-2 py-1 rounded border border-neutral-700">Save</button>
+        <button onClick={onClose} className="underline text-neutral-400">Cancel</button>
+        {error ? (<span className="text-red-400">{error}</span>) : null}
+      </div>
+    </div>
+  );
+};
+
+const LibraryView: React.FC<{ notes: Note[]; taxonomy: Taxonomy; sync: SyncSnapshot; vaultState: VaultSnapshot; transcripts: Map<string, Transcript>; jobs: Map<string, TranscriptionJob>; search: SearchIndex; onUpdated: (n: Note) => void; onDeleted: (n: Note) => void; onReplaced: (notes: Note[]) => void; onTaxonomy: (u: TaxonomyUpdate) => void }> = ({ notes, taxonomy, sync, vaultState, transcripts, jobs, search, onUpdated, onDeleted, onReplaced, onTaxonomy }) => {
+  const [sort, setSort] = useState<LibrarySort>("newest");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [repairStatus, setRepairStatus] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [showTranscription, setShowTranscription] = useState(false);
+  const [showLabels, setShowLabels] = useState(false);
+  const [showSync, setShowSync] = useState(false);
+  const [showVault, setShowVault] = useState(false);
+  const sorted = useMemo(() => sortNotes(notes, sort), [notes, sort]);
+  const hits = useMemo<SearchHit[] | null>(() => (query.trim() ? search.search(query) : null), [search, query]);
+  const byId = useMemo(() => new Map(notes.map((n) => [n.id, n])), [notes]);
+  const rows = hits ? hits.flatMap((h) => { const n = byId.get(h.id); return n ? [{ note: n, snippet: h.snippet }] : []; }) : sorted.map((n) => ({ note: n, snippet: null }));
+  const transcribing = [...jobs.values()].filter((j) => j.state !== "failed").length;
+  const selected = selectedId ? notes.find((n) => n.id === selectedId) : undefined;
+
+  const repair = async () => {
+    setRepairStatus("Scanning audio/…");
+    try {
+      const report = await repairNotes();
+      onReplaced(report.notes);
+      setRepairStatus(`Recovered ${report.recovered.length}, dropped ${report.dropped.length}`);
+    } catch (err) {
+      setRepairStatus(`REPAIR_ERR: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  if (selected) {
+    return (
+      <Screen title="Memo">
+        <NoteDetail key={selected.id} note={selected} taxonomy={taxonomy} onTaxonomy={onTaxonomy} transcript={transcripts.get(selected.id)} job={jobs.get(selected.id)} onBack={() => setSelectedId(null)} onUpdated={onUpdated} onDeleted={(n) => { setSelectedId(null); onDeleted(n); }} />
+      </Screen>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-950 text-neutral-50 flex flex-col pb-16">
+      <header className="p-4 text-center font-medium text-neutral-200 tracking-wide">Library</header>
+      <div className="px-4 pb-2 flex items-center gap-2 text-xs text-neutral-400">
+        <span>{notes.length} memo{notes.length === 1 ? "" : "s"}</span>
+        <button onClick={repair} className="underline">Repair</button>
+        {repairStatus ? (<span>{repairStatus}</span>) : null}
+        <button onClick={() => setShowSync((o) => !o)} className={`underline ${sync.phase === "error" ? "text-red-400" : ""}`}>{syncStatusText(sync)}</button>
+        <select value={sort} onChange={(e) => setSort(e.target.value as LibrarySort)} className="ml-auto bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-neutral-100">
+          <option value="newest">Newest first</option>
+          <option value="oldest">Oldest first</option>
+          <option value="label">Label A–Z</option>
+          <option value="duration">Longest first</option>
+        </select>
+      </div>
+      <ExchangeBar notes={notes} onTaxonomy={onTaxonomy} />
+      <div className="px-4 pb-2 flex items-center gap-2 text-xs text-neutral-400">
+        <input type="search" value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search labels and transcripts" className="flex-1 bg-neutral-900 border border-neutral-700 rounded px-2 py-1 text-neutral-100" />
+        <button onClick={() => setShowLabels((o) => !o)} className="underline">Categories</button>
+        <button onClick={() => setShowTranscription((o) => !o)} className="underline">Transcription{transcribing > 0 ? ` (${transcribing} queued)` : ""}</button>
+        <button onClick={() => setShowVault((o) => !o)} className="underline">{vaultState.state === "unlocked" ? (vaultState.task && !vaultState.progress ? "Encryption unfinished" : "Encrypted") : "Encryption"}</button>
+      </div>
+      {showLabels ? (<TaxonomyEditor taxonomy={taxonomy} notes={notes} onTaxonomy={onTaxonomy} />) : null}
+      {showTranscription ? (<TranscriptionSettingsPanel onClose={() => setShowTranscription(false)} />) : null}
+      {showSync ? (<SyncPanel sync={sync} onClose={() => setShowSync(false)} />) : null}
+      {showVault ? (<VaultPanel vaultState={vaultState} onClose={() => setShowVault(false)} />) : null}
+      <ul className="flex-1 divide-y divide-neutral-800">
+        {rows.map(({ note: n, snippet }) => (
+          <li key={n.id}>
+            <button onClick={() => setSelectedId(n.id)} className="w-full text-left px-4 py-3 hover:bg-neutral-900">
+              <div className="text-sm text-neutral-100">{categoryOf(n, taxonomy)?.icon ?? ""} {noteTitle(n)}</div>
+              <div className="text-xs text-neutral-500">{new Date(n.createdAt).toLocaleDateString()} · {n.durationMs ? msToClock(n.durationMs) : "–"}{n.location ? "" : " · no location"}</div>
+              {tagsOf(n, taxonomy).length > 0 ? (<div className="flex flex-wrap gap-1 mt-1">{tagsOf(n, taxonomy).map((t) => (<LabelChip key={t.id} label={t} active={false} />))}</div>) : null}
+              {snippet ? (<div className="text-xs text-neutral-400 italic mt-1">{snippet}</div>) : null}
+            </button>
+          </li>
+        ))}
+        {notes.length === 0 && (<li className="px-4 py-6 text-center text-sm text-neutral-500">No memos yet. Record one from the Record tab.</li>)}
+        {notes.length > 0 && hits?.length === 0 && (<li className="px-4 py-6 text-center text-sm text-neutral-500">Nothing matches “{query}”.</li>)}
+      </ul>
+    </div>
+  );
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // App Shell
 // ─────────────────────────────────────────────────────────────────────────────
 
-export default function App() {
-  const [tab, setTab] = useState<"record" | "map">("record");
+/** Everything behind the lock; unmounted while the vault is locked so no decrypted state outlives it. */
+const Shell: React.FC<{ vaultState: VaultSnapshot }> = ({ vaultState }) => {
+  const [tab, setTab] = useState<Tab>("record");
   const [notes, setNotes] = useState<Note[]>([]);
-  useEffect(() => { (async () => { const n = await readNotes(); setNotes(n); })(); }, []);
-  const handleSaved = (note: Note) => setNotes((p) => [note, ...p]);
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(EMPTY_TAXONOMY);
+  const [storeError, setStoreError] = useState<string | null>(null);
+  const mapMemory = useRef<MapMemory>({ viewport: null, filter: EMPTY_FILTER });
+  useEffect(() => { (async () => { try { setNotes(await readNotes()); setTaxonomy(await readTaxonomy()); } catch (err) { appLog.error("readNotes failed", err); setStoreError(err instanceof Error ? err.message : String(err)); } })(); }, []);
+  const { transcripts, jobs, forget } = useTranscripts();
+  const search = useSearchIndex(notes, transcripts);
+  const sync = useSync(notes, taxonomy, setNotes, setTaxonomy);
+  const handleSaved = (note: Note) => { setNotes((p) => [note, ...p]); transcribeNewNote(note.id); };
+  const handleUpdated = (note: Note) => setNotes((p) => p.map((n) => (n.id === note.id ? note : n)));
+  const handleTaxonomy = (u: TaxonomyUpdate) => { setTaxonomy(u.taxonomy); setNotes(u.notes); };
+  const handleDeleted = (note: Note) => { setNotes((p) => p.filter((n) => n.id !== note.id)); transcriber.remove(note.id); forget(note.id); };
   return (
     <div className="relative min-h-screen bg-neutral-950">
-      {tab === "record" ? <RecordView onSaved={handleSaved} /> : <MapView notes={notes} />}
+      {storeError ? (<div className="fixed top-0 left-0 right-0 z-[1000] bg-red-900 text-red-100 text-xs p-2 text-center">Library could not be loaded: {storeError}. Nothing will be saved until this is fixed.</div>) : null}
+      {tab === "record" ? <RecordView taxonomy={taxonomy} onSaved={handleSaved} onUpdated={handleUpdated} onTaxonomy={handleTaxonomy} /> : tab === "map" ? <MapView notes={notes} taxonomy={taxonomy} onUpdated={handleUpdated} memory={mapMemory} search={search} /> : <LibraryView notes={notes} taxonomy={taxonomy} sync={sync} vaultState={vaultState} onTaxonomy={handleTaxonomy} transcripts={transcripts} jobs={jobs} search={search} onUpdated={handleUpdated} onDeleted={handleDeleted} onReplaced={setNotes} />}
       <TabBar tab={tab} onChange={setTab} />
     </div>
   );
+};
+
+export default function App() {
+  const vaultState = useSyncExternalStore(vault.subscribe, vault.getSnapshot);
+  useEffect(() => { vault.ready().catch((err) => appLog.error("vault.json unreadable", err)); }, []);
+  useEffect(() => {
+    void diagnostics.restore();
+    appLog.info("started", { build: BUILD_SENTINEL, loadedAt: BUILD_TIME, platform: PLATFORM });
+    // A backgrounded app may be killed without warning; get the log onto disk first.
+    const onVisibility = () => { if (document.visibilityState === "hidden") void diagnostics.flush(); };
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => document.removeEventListener("visibilitychange", onVisibility);
+  }, []);
+  useAutoLock(vaultState.state === "unlocked");
+  if (vaultState.state === "loading") return <div className="min-h-screen bg-neutral-950" />;
+  if (vaultState.state === "locked") return <LockScreen vaultState={vaultState} />;
+  return (
+    <>
+      <Shell vaultState={vaultState} />
+      {vaultState.progress ? (<div className="fixed inset-0 z-[2000] bg-neutral-950/90 flex items-center justify-center text-sm text-neutral-200">{vaultTaskText(vaultState)} Keep the app open.</div>) : null}
+    </>
+  );
 }
@@ -0,0 +1,34 @@
+import { databaseOpener, iterate, withStore } from "./idb";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// IndexedDB blob store for web audio, keyed by Note.id
+// ─────────────────────────────────────────────────────────────────────────────
+
+const STORE = "audio";
+
+export type StoredBlob = { id: string; blob: Blob; mimeType: string; storedAt: number };
+
+const openDb = databaseOpener("geo-voice-audio", 1, (db) => {
+  if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: "id" });
+});
+
+export async function putBlob(id: string, blob: Blob, mimeType = blob.type, storedAt = Date.now()): Promise<void> {
+  const record: StoredBlob = { id, blob, mimeType, storedAt };
+  await withStore(await openDb(), STORE, "readwrite", (s) => s.put(record));
+}
+
+export async function getBlob(id: string): Promise<StoredBlob | undefined> {
+  return withStore<StoredBlob | undefined>(await openDb(), STORE, "readonly", (s) => s.get(id));
+}
+
+export async function deleteBlob(id: string): Promise<void> {
+  await withStore(await openDb(), STORE, "readwrite", (s) => s.delete(id));
+}
+
+/** Metadata for every stored blob, without pulling the audio itself into memory. */
+export async function listBlobs(): Promise<Omit<StoredBlob, "blob">[]> {
+  const out: Omit<StoredBlob, "blob">[] = [];
+  const store = (await openDb()).transaction(STORE, "readonly").objectStore(STORE);
+  await iterate<StoredBlob>(store, ({ id, mimeType, storedAt }) => { out.push({ id, mimeType, storedAt }); });
+  return out;
+}
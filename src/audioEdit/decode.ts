@@ -0,0 +1,32 @@
+import { mixDown } from "./pcm";
+import type { Pcm } from "./pcm";
+
+export type AudioEditErrorCode = "NO_AUDIO" | "DECODE_FAILED" | "EMPTY_RANGE";
+
+export class AudioEditError extends Error {
+  readonly code: AudioEditErrorCode;
+  constructor(code: AudioEditErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "AudioEditError";
+    this.code = code;
+  }
+}
+
+/** Edits run at this rate: plenty for a voice, and half the size of 48 kHz WAV. */
+export const EDIT_SAMPLE_RATE = 24_000;
+
+/** Decodes any format the WebView can play into mono PCM at EDIT_SAMPLE_RATE. */
+export async function decodeAudio(blob: Blob): Promise<Pcm> {
+  const Offline = window.OfflineAudioContext ?? (window as unknown as { webkitOfflineAudioContext?: typeof OfflineAudioContext }).webkitOfflineAudioContext;
+  if (!Offline) throw new AudioEditError("DECODE_FAILED", "Web Audio is not available here");
+  // decodeAudioData resamples to the context's rate, so this context never renders anything.
+  const ctx = new Offline(1, 1, EDIT_SAMPLE_RATE);
+  let buffer: AudioBuffer;
+  try {
+    buffer = await ctx.decodeAudioData(await blob.arrayBuffer());
+  } catch (err) {
+    throw new AudioEditError("DECODE_FAILED", `Could not decode ${blob.type || "audio"}`, { cause: err });
+  }
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  return { samples: mixDown(channels), sampleRate: buffer.sampleRate };
+}
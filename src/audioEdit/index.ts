@@ -0,0 +1,5 @@
+export { AudioEditError, EDIT_SAMPLE_RATE, decodeAudio } from "./decode";
+export type { AudioEditErrorCode } from "./decode";
+export { DEFAULT_SILENCE, computePeaks, detectSpeech, encodeWav, meterLevel, mixDown, pcmDurationMs, slicePcm } from "./pcm";
+export type { Pcm, SilenceOptions, TrimRange } from "./pcm";
+export { loadNotePcm, trimNote, trimSilence, trimTrack } from "./trim";
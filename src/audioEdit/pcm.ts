@@ -0,0 +1,102 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// PCM helpers: peaks for waveforms, speech detection for trimming, WAV output.
+// Pure functions over Float32Array samples in [-1, 1]; they run under Node.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Mono samples at a known rate. */
+export type Pcm = { samples: Float32Array; sampleRate: number };
+
+/** The part of a recording to keep, in ms from its start. */
+export type TrimRange = { startMs: number; endMs: number };
+
+export type SilenceOptions = {
+  /** Windows quieter than this (RMS, dBFS) count as silence. */
+  thresholdDb: number;
+  windowMs: number;
+  /** Kept either side of the detected speech so words are not clipped. */
+  padMs: number;
+};
+
+export const DEFAULT_SILENCE: SilenceOptions = { thresholdDb: -45, windowMs: 20, padMs: 200 };
+
+/** The meter's floor; anything quieter reads as zero. */
+const METER_FLOOR_DB = -60;
+
+export function pcmDurationMs(pcm: Pcm): number {
+  return (pcm.samples.length / pcm.sampleRate) * 1000;
+}
+
+/** Averages channels into one. */
+export function mixDown(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const out = new Float32Array(channels[0]?.length ?? 0);
+  for (const ch of channels) for (let i = 0; i < out.length; i++) out[i] += ch[i] / channels.length;
+  return out;
+}
+
+function rms(samples: Float32Array, from = 0, to = samples.length): number {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  return to > from ? Math.sqrt(sum / (to - from)) : 0;
+}
+
+const toDb = (amplitude: number) => (amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity);
+
+/** Loudness of a buffer for a level meter: 0 at -60 dBFS or below, 1 at full scale. */
+export function meterLevel(samples: Float32Array): number {
+  const db = toDb(rms(samples));
+  return Math.min(1, Math.max(0, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+}
+
+/** Peak amplitude per bucket, `buckets` of them across the whole recording. */
+export function computePeaks(samples: Float32Array, buckets: number): number[] {
+  const out = new Array<number>(buckets).fill(0);
+  if (samples.length === 0) return out;
+  const per = samples.length / buckets;
+  for (let b = 0; b < buckets; b++) {
+    const end = Math.min(samples.length, Math.floor((b + 1) * per));
+    let peak = 0;
+    for (let i = Math.floor(b * per); i < end; i++) { const v = Math.abs(samples[i]); if (v > peak) peak = v; }
+    out[b] = Math.min(1, peak);
+  }
+  return out;
+}
+
+/** From the first to the last window louder than the threshold, padded; null when it is silence throughout. */
+export function detectSpeech(pcm: Pcm, options: Partial<SilenceOptions> = {}): TrimRange | null {
+  const { thresholdDb, windowMs, padMs } = { ...DEFAULT_SILENCE, ...options };
+  const size = Math.max(1, Math.round((pcm.sampleRate * windowMs) / 1000));
+  const windows = Math.ceil(pcm.samples.length / size);
+  const loud = (w: number) => toDb(rms(pcm.samples, w * size, Math.min(pcm.samples.length, (w + 1) * size))) > thresholdDb;
+  let first = -1; let last = -1;
+  for (let w = 0; w < windows; w++) if (loud(w)) { first = w; break; }
+  if (first < 0) return null;
+  for (let w = windows - 1; w >= first; w--) if (loud(w)) { last = w; break; }
+  const total = pcmDurationMs(pcm);
+  return {
+    startMs: Math.max(0, (first * size * 1000) / pcm.sampleRate - padMs),
+    endMs: Math.min(total, ((last + 1) * size * 1000) / pcm.sampleRate + padMs),
+  };
+}
+
+export function slicePcm(pcm: Pcm, range: TrimRange): Pcm {
+  const at = (ms: number) => Math.min(pcm.samples.length, Math.max(0, Math.round((ms * pcm.sampleRate) / 1000)));
+  return { samples: pcm.samples.slice(at(range.startMs), at(range.endMs)), sampleRate: pcm.sampleRate };
+}
+
+/** 16-bit mono PCM WAV; every WebView plays it and it needs no encoder. */
+export function encodeWav(pcm: Pcm): Blob {
+  const { samples, sampleRate } = pcm;
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const ascii = (offset: number, s: string) => { for (let i = 0; i < s.length; i++) view.setUint8(offset + i, s.charCodeAt(i)); };
+  ascii(0, "RIFF"); view.setUint32(4, 36 + samples.length * 2, true); ascii(8, "WAVE");
+  ascii(12, "fmt "); view.setUint32(16, 16, true); view.setUint16(20, 1, true); view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true); view.setUint32(28, sampleRate * 2, true); view.setUint16(32, 2, true); view.setUint16(34, 16, true);
+  ascii(36, "data"); view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: "audio/wav" });
+}
@@ -0,0 +1,66 @@
+import type { Note, TrackPoint } from "../types";
+import type { RecordedAudio } from "../recorder/types";
+import { AUDIO_DIR, readAudio, replaceAudio } from "../audioStorage";
+import { base64ToBlob, toBase64Standard } from "../audioFormat";
+import { patchNote } from "../notesStore";
+import { readTranscript, transcriber } from "../transcription";
+import { AudioEditError, decodeAudio } from "./decode";
+import { detectSpeech, encodeWav, pcmDurationMs, slicePcm } from "./pcm";
+import type { Pcm, TrimRange } from "./pcm";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Trimming
+//
+// Cuts are decoded, sliced and written back as WAV: the WebView has no AAC or
+// Opus encoder that works offline and faster than real time. The route and
+// durationMs follow the cut; a transcript, whose timings no longer match, is
+// redone.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Anything shorter is not worth keeping as a memo. */
+const MIN_KEEP_MS = 300;
+/** Automatic trimming leaves recordings alone unless it saves at least this much. */
+const MIN_AUTO_CUT_MS = 500;
+
+/** Track points inside `range`, re-timed to the cut audio. */
+export function trimTrack(track: TrackPoint[] | undefined, range: TrimRange): TrackPoint[] | undefined {
+  if (!track) return undefined;
+  const kept = track.filter((p) => p.t >= range.startMs && p.t <= range.endMs).map((p) => ({ ...p, t: p.t - range.startMs }));
+  return kept.length > 0 ? kept : undefined;
+}
+
+export async function loadNotePcm(note: Note): Promise<Pcm> {
+  const blob = await readAudio(note);
+  if (!blob) throw new AudioEditError("NO_AUDIO", "Audio for this memo is missing");
+  return decodeAudio(blob);
+}
+
+/** Replaces the note's audio with `range` of it and returns the updated note. Pass `pcm` if it is already decoded. */
+export async function trimNote(note: Note, range: TrimRange, pcm?: Pcm): Promise<Note> {
+  const source = pcm ?? (await loadNotePcm(note));
+  const cut = slicePcm(source, range);
+  const durationMs = Math.round(pcmDurationMs(cut));
+  if (durationMs < MIN_KEEP_MS) throw new AudioEditError("EMPTY_RANGE", "Nothing left to keep");
+
+  const filePath = `${AUDIO_DIR}/${note.id}.wav`;
+  const webPath = await replaceAudio(note, filePath, { kind: "blob", blob: encodeWav(cut), mimeType: "audio/wav", durationMs });
+  const next = await patchNote(note.id, { filePath, webPath, mimeType: "audio/wav", durationMs, track: trimTrack(note.track, range) });
+  if (!next) throw new AudioEditError("NO_AUDIO", "Memo was deleted while trimming");
+  if (await readTranscript(note.id)) transcriber.retry(note.id);
+  return next;
+}
+
+/**
+ * Drops leading and trailing silence from a fresh take before it is saved.
+ * Returns null when there is nothing worth cutting (or the audio cannot be
+ * decoded here), in which case the original is kept as recorded.
+ */
+export async function trimSilence(audio: RecordedAudio): Promise<{ audio: RecordedAudio; range: TrimRange } | null> {
+  const blob = audio.kind === "blob" ? audio.blob : base64ToBlob(toBase64Standard(audio.base64), audio.mimeType);
+  const pcm = await decodeAudio(blob);
+  const total = pcmDurationMs(pcm);
+  const range = detectSpeech(pcm);
+  if (!range || total - (range.endMs - range.startMs) < MIN_AUTO_CUT_MS) return null;
+  const cut = slicePcm(pcm, range);
+  return { audio: { kind: "blob", blob: encodeWav(cut), mimeType: "audio/wav", durationMs: Math.round(pcmDurationMs(cut)) }, range };
+}
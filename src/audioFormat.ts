@@ -0,0 +1,53 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Audio encoding helpers (platform-free, safe to import under Node)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function mimeToExt(m: string): string {
+  if (!m) return "webm";
+  if (m.includes("mp4")) return "m4a";
+  if (m.includes("aac")) return "aac";
+  if (m.includes("ogg")) return "ogg";
+  if (m.includes("wav")) return "wav";
+  return "webm";
+}
+
+export function extToMime(ext: string): string {
+  switch (ext.toLowerCase()) {
+    case "m4a": return "audio/mp4";
+    case "aac": return "audio/aac";
+    case "ogg": return "audio/ogg";
+    case "wav": return "audio/wav";
+    default: return "audio/webm";
+  }
+}
+
+export function toBase64Standard(input: string): string {
+  let b64 = input.replace(/^data:.*;base64,/, "").trim();
+  b64 = b64.replace(/\s+/g, "").replace(/-/g, "+").replace(/_/g, "/");
+  const pad = b64.length % 4;
+  if (pad === 1) throw new Error("Invalid base64 length");
+  if (pad > 0) b64 += "=".repeat(4 - pad);
+  return b64;
+}
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+}
+
+export async function blobToBase64(blob: Blob): Promise<string> {
+  return arrayBufferToBase64(await blob.arrayBuffer());
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function base64ToBlob(base64: string, mimeType: string): Blob {
+  return new Blob([base64ToBytes(base64)], { type: mimeType });
+}
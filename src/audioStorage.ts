@@ -0,0 +1,177 @@
+import { Capacitor } from "@capacitor/core";
+import { Filesystem, Directory } from "@capacitor/filesystem";
+import type { Note } from "./types";
+import type { RecordedAudio } from "./recorder/types";
+import { arrayBufferToBase64, base64ToBytes, extToMime, mimeToExt, toBase64Standard } from "./audioFormat";
+import { deleteBlob, getBlob, listBlobs, putBlob } from "./audioBlobStore";
+import { vault } from "./vault/vault";
+import { logger } from "./diagnostics/log";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Audio storage
+//
+// Native: audio/<id>.<ext> in Directory.Data, played through convertFileSrc.
+// Web: a Blob in IndexedDB keyed by Note.id; Note.webPath stays empty and
+// playback gets a short-lived object URL from openAudio().
+//
+// With the vault on, both hold the audio sealed; reads decrypt into memory and
+// native playback switches to object URLs as well.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const AUDIO_DIR = "audio";
+
+const log = logger("audio");
+
+const isWeb = () => Capacitor.getPlatform() === "web";
+
+export type StoredAudio = { id: string; filePath: string; mimeType: string; createdAt: string };
+
+/** False for notes imported without audio (plain GeoJSON/GPX points). */
+export function hasAudio(note: Note): boolean {
+  return note.filePath !== "";
+}
+
+function idFromFilePath(filePath: string): string {
+  const name = filePath.slice(filePath.lastIndexOf("/") + 1);
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(0, dot) : name;
+}
+
+async function audioBytes(audio: RecordedAudio): Promise<Uint8Array<ArrayBuffer>> {
+  return audio.kind === "blob" ? new Uint8Array(await audio.blob.arrayBuffer()) : base64ToBytes(toBase64Standard(audio.base64));
+}
+
+/** Raw stored bytes, or null if missing. Web reads need the note id, native reads the path. */
+async function readStored(id: string, filePath: string): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (isWeb()) {
+    const stored = await getBlob(id);
+    return stored ? new Uint8Array(await stored.blob.arrayBuffer()) : null;
+  }
+  try {
+    const { data } = await Filesystem.readFile({ path: filePath, directory: Directory.Data });
+    return typeof data === "string" ? base64ToBytes(toBase64Standard(data)) : new Uint8Array(await data.arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+async function writeStored(id: string, filePath: string, bytes: Uint8Array<ArrayBuffer>, mimeType: string, storedAt?: number): Promise<void> {
+  if (isWeb()) await putBlob(id, new Blob([bytes], { type: mimeType }), mimeType, storedAt);
+  else await Filesystem.writeFile({ path: filePath, directory: Directory.Data, data: arrayBufferToBase64(bytes.buffer), recursive: true });
+}
+
+/** Stores the audio for note `id` at `filePath` and returns the Note.webPath to record. */
+export async function writeAudio(id: string, filePath: string, audio: RecordedAudio): Promise<string> {
+  await writeStored(id, filePath, await vault.sealBytes(await audioBytes(audio)), audio.mimeType);
+  return webPathFor(filePath);
+}
+
+/**
+ * Swaps a note's audio for `audio` at `filePath` (the extension may change) and
+ * returns the new webPath. The old file only goes once the new one is written;
+ * on web the Blob under the note id is simply overwritten.
+ */
+export async function replaceAudio(note: Note, filePath: string, audio: RecordedAudio): Promise<string> {
+  const webPath = await writeAudio(note.id, filePath, audio);
+  if (hasAudio(note) && note.filePath !== filePath) {
+    await Filesystem.deleteFile({ path: note.filePath, directory: Directory.Data }).catch((err) => { if (!isWeb()) log.warn("old audio not removed", err); });
+  }
+  return webPath;
+}
+
+export async function deleteAudio(note: Note): Promise<void> {
+  if (!hasAudio(note)) return;
+  if (isWeb()) await deleteBlob(note.id);
+  // Web builds before IndexedDB storage also wrote a copy through Filesystem; remove it either way.
+  try {
+    await Filesystem.deleteFile({ path: note.filePath, directory: Directory.Data });
+  } catch (err) {
+    if (!isWeb()) log.warn("delete audio failed (already gone?)", err);
+  }
+}
+
+/** The note's audio as a Blob, or null if it is missing from storage. Throws a LOCKED VaultError for sealed audio while locked. */
+export async function readAudio(note: Note): Promise<Blob | null> {
+  if (!hasAudio(note)) return null;
+  const mimeType = note.mimeType || extToMime(note.filePath.slice(note.filePath.lastIndexOf(".") + 1));
+  const bytes = await readStored(note.id, note.filePath);
+  if (bytes) return new Blob([await vault.openBytes(bytes)], { type: mimeType });
+  if (isWeb() && note.webPath.startsWith("data:")) return (await fetch(note.webPath)).blob();
+  return null;
+}
+
+/**
+ * Rewrites one stored file in whatever form the vault now writes (sealed
+ * under the current key, or plain). Returns false when it already was.
+ */
+export async function resealAudio(entry: StoredAudio): Promise<boolean> {
+  const bytes = await readStored(entry.id, entry.filePath);
+  if (!bytes || vault.isCurrent(bytes)) return false;
+  const storedAt = isWeb() ? Date.parse(entry.createdAt) : undefined;
+  await writeStored(entry.id, entry.filePath, await vault.sealBytes(await vault.openBytes(bytes)), entry.mimeType, storedAt);
+  return true;
+}
+
+/** Everything actually present in audio storage, for reconciling against the index. */
+export async function listAudio(): Promise<StoredAudio[]> {
+  if (isWeb()) {
+    return (await listBlobs()).map((b) => ({ id: b.id, filePath: `${AUDIO_DIR}/${b.id}.${mimeToExt(b.mimeType)}`, mimeType: b.mimeType, createdAt: new Date(b.storedAt).toISOString() }));
+  }
+  let files: { name: string; type: string; mtime: number; ctime?: number }[];
+  try {
+    files = (await Filesystem.readdir({ path: AUDIO_DIR, directory: Directory.Data })).files;
+  } catch {
+    return []; // no audio directory yet
+  }
+  return files.filter((f) => f.type === "file").map((f) => {
+    const filePath = `${AUDIO_DIR}/${f.name}`;
+    const dot = f.name.lastIndexOf(".");
+    return { id: idFromFilePath(filePath), filePath, mimeType: extToMime(dot > 0 ? f.name.slice(dot + 1) : ""), createdAt: new Date(f.ctime ?? f.mtime).toISOString() };
+  });
+}
+
+/** The Note.webPath for audio stored at `filePath`. */
+export async function webPathFor(filePath: string): Promise<string> {
+  if (isWeb()) return "";
+  const { uri } = await Filesystem.getUri({ path: filePath, directory: Directory.Data });
+  return Capacitor.convertFileSrc(uri);
+}
+
+/**
+ * Playable URL for a note. Call `release` once playback is over; for audio
+ * played from memory it revokes the object URL so the Blob can be collected.
+ */
+export async function openAudio(note: Note): Promise<{ url: string; release: () => void }> {
+  if (!hasAudio(note)) throw new Error("This memo has no audio");
+  if ((isWeb() && !note.webPath) || (await vault.isEnabled())) {
+    const blob = await readAudio(note);
+    if (!blob) throw new Error("No audio stored for this memo");
+    const url = URL.createObjectURL(blob);
+    let released = false;
+    return { url, release: () => { if (!released) { released = true; URL.revokeObjectURL(url); } } };
+  }
+  return { url: note.webPath, release: () => undefined };
+}
+
+/**
+ * Moves legacy `data:` URL audio out of the index into IndexedDB. Notes whose
+ * move fails keep their data URL, which still plays, and are retried next load.
+ */
+export async function extractInlineAudio(notes: Note[]): Promise<{ notes: Note[]; moved: number }> {
+  let moved = 0;
+  const out: Note[] = [];
+  for (const n of notes) {
+    if (!n.webPath.startsWith("data:")) { out.push(n); continue; }
+    try {
+      const blob = await (await fetch(n.webPath)).blob();
+      await writeAudio(n.id, n.filePath, { kind: "blob", blob, mimeType: n.mimeType || blob.type });
+      await Filesystem.deleteFile({ path: n.filePath, directory: Directory.Data }).catch(() => undefined);
+      out.push({ ...n, webPath: "" });
+      moved++;
+    } catch (err) {
+      log.warn("could not move inline audio to IndexedDB", err);
+      out.push(n);
+    }
+  }
+  return { notes: out, moved };
+}
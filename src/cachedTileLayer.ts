@@ -0,0 +1,29 @@
+import * as L from "leaflet";
+import { loadTile } from "./tileCache";
+import type { TileSource } from "./tileSources";
+
+/** L.TileLayer that serves tiles from the offline cache first and fills it as the user browses. */
+export class CachedTileLayer extends L.TileLayer {
+  private readonly source: TileSource;
+
+  constructor(source: TileSource) {
+    super(source.urlTemplate, { attribution: source.attribution, subdomains: source.subdomains || "abc", maxZoom: source.maxZoom });
+    this.source = source;
+  }
+
+  createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const img = document.createElement("img");
+    img.alt = "";
+    img.setAttribute("role", "presentation");
+    loadTile(this.source, { z: coords.z, x: coords.x, y: coords.y }).then(
+      (blob) => {
+        const url = URL.createObjectURL(blob);
+        img.onload = () => { URL.revokeObjectURL(url); done(undefined, img); };
+        img.onerror = () => { URL.revokeObjectURL(url); done(new Error("tile decode failed"), img); };
+        img.src = url;
+      },
+      (err: unknown) => done(err instanceof Error ? err : new Error(String(err)), img),
+    );
+    return img;
+  }
+}
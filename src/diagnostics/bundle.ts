@@ -0,0 +1,148 @@
+import type { Note, Taxonomy, Tombstone } from "../types";
+import { NOTES_SCHEMA_VERSION, readNotes, readTaxonomy, readTombstones } from "../notesStore";
+import { hasAudio, listAudio } from "../audioStorage";
+import { getTranscriptionSettings, listTranscriptFiles, transcriber } from "../transcription";
+import { getSyncSettings, syncer } from "../sync";
+import { vault } from "../vault";
+import type { ExportFile } from "../exchange";
+import { BUILD_SENTINEL, BUILD_TIME, probeCapabilities } from "./capabilities";
+import type { Capabilities } from "./capabilities";
+import { diagnostics } from "./log";
+import type { LogEntry } from "./log";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Debug bundle
+//
+// One JSON file a tester can send without Xcode: the log, build and device
+// capabilities, service states and a summary of the library made of counts
+// only. No labels, transcripts, coordinates, note ids, server URLs or keys.
+//
+// Log entries are written not to carry those, but error messages come from
+// everywhere, so the copy in the bundle is scrubbed as well: ids, URLs, tile
+// positions and whatever a server said after its status code are replaced.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type LibrarySummary = {
+  schemaVersion: number;
+  notes: number;
+  withAudio: number;
+  withLocation: number;
+  /** Located notes by where the fix came from. */
+  locationSources: Record<string, number>;
+  withTrack: number;
+  labelled: number;
+  categorized: number;
+  tagged: number;
+  mimeTypes: Record<string, number>;
+  totalDurationMs: number;
+  categories: number;
+  tags: number;
+  tombstones: number;
+  /** Audio files or blobs actually present. */
+  audioStored: number;
+  /** Notes that should have audio but have none stored. */
+  audioMissing: number;
+  /** Stored audio no note points at; Repair would recover these. */
+  audioOrphaned: number;
+  transcripts: number;
+};
+
+export type DebugBundle = {
+  kind: "geo-voice-debug";
+  version: 1;
+  createdAt: string;
+  build: { sentinel: string; loadedAt: string };
+  capabilities: Capabilities;
+  library: LibrarySummary | { unavailable: string };
+  services: {
+    vault: string;
+    sync: { configured: boolean; phase: string; pending: number; lastSyncAt: string | null };
+    transcription: { provider: string; auto: boolean; jobs: Record<string, number> };
+  };
+  logs: LogEntry[];
+};
+
+function countBy<T>(items: T[], key: (item: T) => string | undefined): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const item of items) { const k = key(item); if (k !== undefined) out[k] = (out[k] ?? 0) + 1; }
+  return out;
+}
+
+/** Counts only; see the header for what stays out. */
+export function summarizeLibrary(notes: Note[], taxonomy: Taxonomy, tombstones: Tombstone[], storedAudioIds: string[], transcripts: number): LibrarySummary {
+  const stored = new Set(storedAudioIds);
+  const ids = new Set(notes.map((n) => n.id));
+  return {
+    schemaVersion: NOTES_SCHEMA_VERSION,
+    notes: notes.length,
+    withAudio: notes.filter(hasAudio).length,
+    withLocation: notes.filter((n) => n.location).length,
+    locationSources: countBy(notes, (n) => n.location?.source),
+    withTrack: notes.filter((n) => n.track && n.track.length > 0).length,
+    labelled: notes.filter((n) => n.label).length,
+    categorized: notes.filter((n) => n.categoryId).length,
+    tagged: notes.filter((n) => n.tagIds && n.tagIds.length > 0).length,
+    mimeTypes: countBy(notes.filter(hasAudio), (n) => n.mimeType || "unknown"),
+    totalDurationMs: notes.reduce((sum, n) => sum + (n.durationMs ?? 0), 0),
+    categories: taxonomy.categories.length,
+    tags: taxonomy.tags.length,
+    tombstones: tombstones.length,
+    audioStored: stored.size,
+    audioMissing: notes.filter((n) => hasAudio(n) && !stored.has(n.id) && !n.webPath.startsWith("data:")).length,
+    audioOrphaned: [...stored].filter((id) => !ids.has(id)).length,
+    transcripts,
+  };
+}
+
+const SCRUBBERS: [RegExp, string][] = [
+  [/\b[a-z][a-z0-9+.-]*:\/\/\S+/gi, "<url>"],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<id>"],
+  [/\bimport-[0-9a-z]+\b/g, "<id>"],
+  // Tile z/x/y pins down where the user looked at the map.
+  [/\b\d+\/\d+\/\d+\b/g, "<tile>"],
+  [/\b(HTTP \d{3}): [\s\S]*/g, "$1: <response>"],
+];
+
+function scrub(value: unknown): unknown {
+  if (typeof value === "string") return SCRUBBERS.reduce((s, [pattern, replacement]) => s.replace(pattern, replacement), value);
+  if (Array.isArray(value)) return value.map(scrub);
+  if (value && typeof value === "object") return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, scrub(v)]));
+  return value;
+}
+
+/** The log as it goes into the bundle; see the header. */
+export function redactLogs(entries: LogEntry[]): LogEntry[] {
+  return entries.map((e) => ({ ...e, msg: scrub(e.msg) as string, ...(e.data !== undefined ? { data: scrub(e.data) } : {}) }));
+}
+
+async function librarySummary(): Promise<DebugBundle["library"]> {
+  if (vault.getSnapshot().state === "locked") return { unavailable: "vault locked" };
+  try {
+    const [notes, taxonomy, tombstones, audio, transcripts] = await Promise.all([readNotes(), readTaxonomy(), readTombstones(), listAudio(), listTranscriptFiles()]);
+    return summarizeLibrary(notes, taxonomy, tombstones, audio.map((a) => a.id), transcripts.length);
+  } catch (err) {
+    return { unavailable: err instanceof Error ? `${err.name}: ${err.message}` : String(err) };
+  }
+}
+
+export async function buildDebugBundle(): Promise<ExportFile> {
+  await diagnostics.restore();
+  const sync = syncer.getSnapshot();
+  const transcription = getTranscriptionSettings();
+  const bundle: DebugBundle = {
+    kind: "geo-voice-debug",
+    version: 1,
+    createdAt: new Date().toISOString(),
+    build: { sentinel: BUILD_SENTINEL, loadedAt: BUILD_TIME },
+    capabilities: await probeCapabilities(),
+    library: await librarySummary(),
+    services: {
+      vault: vault.getSnapshot().state,
+      sync: { configured: getSyncSettings().serverUrl !== "", phase: sync.phase, pending: sync.pending, lastSyncAt: sync.lastSyncAt },
+      transcription: { provider: transcription.provider, auto: transcription.auto, jobs: countBy(transcriber.getSnapshot().jobs, (j) => j.state) },
+    },
+    logs: redactLogs(diagnostics.getSnapshot()),
+  };
+  const stamp = bundle.createdAt.replace(/[:.]/g, "-");
+  return { filename: `geo-voice-debug-${stamp}.json`, blob: new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" }) };
+}
@@ -0,0 +1,53 @@
+import { Capacitor } from "@capacitor/core";
+import { MIME_CANDIDATES } from "../recorder/backends/mediaRecorder";
+
+/** Bump to prove a device is running a fresh build. */
+export const BUILD_SENTINEL = "GV_DEBUG_2025_08_24_C";
+/** When this bundle was loaded; close enough to the build for telling builds apart. */
+export const BUILD_TIME = new Date().toISOString();
+
+export type Capabilities = {
+  platform: string;
+  native: boolean;
+  /** Capacitor plugins the app depends on, by whether they are linked into this build. */
+  plugins: Record<string, boolean>;
+  mediaDevices: boolean;
+  getUserMedia: boolean;
+  /** null when devices cannot be listed (no mediaDevices, or no permission yet). */
+  audioInputs: number | null;
+  /** Types MediaRecorder says it can produce, from the web backend's candidates. */
+  recorderTypes: string[];
+  webAudio: boolean;
+  webCrypto: boolean;
+  indexedDB: boolean;
+  userAgent: string;
+};
+
+const PLUGINS = ["VoiceRecorder", "Geolocation", "Filesystem"];
+
+export async function probeCapabilities(): Promise<Capabilities> {
+  const media = typeof navigator !== "undefined" ? navigator.mediaDevices : undefined; // often missing in WKWebView
+  let audioInputs: number | null = null;
+  try {
+    if (media?.enumerateDevices) audioInputs = (await media.enumerateDevices()).filter((d) => d.kind === "audioinput").length;
+  } catch { /* leave unknown */ }
+  const recorderTypes = typeof MediaRecorder === "undefined" ? [] : MIME_CANDIDATES.filter((t) => { try { return MediaRecorder.isTypeSupported(t); } catch { return false; } });
+  return {
+    platform: Capacitor.getPlatform(),
+    native: Capacitor.isNativePlatform(),
+    plugins: Object.fromEntries(PLUGINS.map((p) => [p, Capacitor.isPluginAvailable(p)])),
+    mediaDevices: !!media,
+    getUserMedia: !!media?.getUserMedia,
+    audioInputs,
+    recorderTypes,
+    webAudio: typeof AudioContext !== "undefined" || typeof OfflineAudioContext !== "undefined",
+    webCrypto: !!globalThis.crypto?.subtle,
+    indexedDB: typeof indexedDB !== "undefined",
+    userAgent: typeof navigator !== "undefined" ? navigator.userAgent : "",
+  };
+}
+
+/** One line for the diagnostics panel. */
+export function describeCapabilities(c: Capabilities): string {
+  return `platform=${c.platform} plugin=${c.plugins.VoiceRecorder} hasMD=${c.mediaDevices} hasGUM=${c.getUserMedia} inputs=${c.audioInputs ?? "?"}`;
+}
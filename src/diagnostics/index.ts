@@ -0,0 +1,6 @@
+export { DiagnosticsLog, diagnostics, fileLogPersistence, logger } from "./log";
+export type { DiagnosticsLogOptions, LogEntry, LogLevel, LogPersistence, ScopedLog } from "./log";
+export { BUILD_SENTINEL, BUILD_TIME, describeCapabilities, probeCapabilities } from "./capabilities";
+export type { Capabilities } from "./capabilities";
+export { buildDebugBundle, redactLogs, summarizeLibrary } from "./bundle";
+export type { DebugBundle, LibrarySummary } from "./bundle";
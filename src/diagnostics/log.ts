@@ -0,0 +1,136 @@
+import { Filesystem, Directory, Encoding } from "@capacitor/filesystem";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Diagnostics log
+//
+// A leveled ring buffer of the last few hundred events, mirrored to the console
+// (Xcode and browser devtools still see everything) and saved to
+// diagnostics.json in Directory.Data shortly after each write, so what led up
+// to a crash is still there on the next launch. Entries carry states, codes
+// and counts; memo labels, transcripts and coordinates stay out of it.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogEntry = { t: string; level: LogLevel; scope: string; msg: string; data?: unknown };
+
+export type LogPersistence = {
+  load(): Promise<LogEntry[]>;
+  save(entries: LogEntry[]): Promise<void>;
+};
+
+export type ScopedLog = Record<LogLevel, (msg: string, data?: unknown) => void>;
+
+export type DiagnosticsLogOptions = {
+  persistence?: LogPersistence;
+  capacity?: number;
+  /** Mirror entries to the console. */
+  echo?: boolean;
+  flushDelayMs?: number;
+};
+
+const LOG_FILE = "diagnostics.json";
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/** Errors do not survive JSON.stringify; everything else is kept if it serializes. */
+function toLoggable(data: unknown): unknown {
+  if (data === undefined) return undefined;
+  if (data instanceof Error) {
+    const code = (data as { code?: unknown }).code;
+    return { name: data.name, message: data.message, ...(code !== undefined ? { code } : {}) };
+  }
+  try {
+    return JSON.parse(JSON.stringify(data)) as unknown;
+  } catch {
+    return String(data);
+  }
+}
+
+export class DiagnosticsLog {
+  private readonly options: Required<Omit<DiagnosticsLogOptions, "persistence">> & Pick<DiagnosticsLogOptions, "persistence">;
+  private entries: LogEntry[] = [];
+  private listeners = new Set<(entries: LogEntry[]) => void>();
+  private restored: Promise<void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: DiagnosticsLogOptions = {}) {
+    this.options = { capacity: 500, echo: true, flushDelayMs: 2_000, ...options };
+  }
+
+  getSnapshot = (): LogEntry[] => this.entries;
+
+  subscribe = (listener: (entries: LogEntry[]) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  /** Puts the previous sessions' entries in front of this one's. Safe to call more than once. */
+  restore(): Promise<void> {
+    this.restored ??= (async () => {
+      let previous: LogEntry[] = [];
+      try { previous = (await this.options.persistence?.load()) ?? []; } catch { /* unreadable log: start over */ }
+      this.replace([...previous, ...this.entries]);
+    })();
+    return this.restored;
+  }
+
+  log(level: LogLevel, scope: string, msg: string, data?: unknown): void {
+    const entry: LogEntry = { t: new Date().toISOString(), level, scope, msg };
+    const loggable = toLoggable(data);
+    if (loggable !== undefined) entry.data = loggable;
+    if (this.options.echo) (level === "debug" ? console.log : console[level])(`[${scope}] ${msg}`, ...(loggable !== undefined ? [loggable] : []));
+    this.replace([...this.entries, entry]);
+    this.scheduleFlush(level === "error" ? 0 : this.options.flushDelayMs);
+  }
+
+  scope(name: string): ScopedLog {
+    return Object.fromEntries(LEVELS.map((level) => [level, (msg: string, data?: unknown) => this.log(level, name, msg, data)])) as ScopedLog;
+  }
+
+  clear(): void {
+    this.replace([]);
+    this.scheduleFlush(0);
+  }
+
+  /** Writes the buffer now; never throws. */
+  async flush(): Promise<void> {
+    if (this.timer) { clearTimeout(this.timer); this.timer = null; }
+    if (!this.options.persistence) return;
+    // Saving before the old entries are back would overwrite them.
+    await this.restore();
+    try { await this.options.persistence.save(this.entries); } catch (err) { if (this.options.echo) console.warn("diagnostics log not saved:", err); }
+  }
+
+  private scheduleFlush(delayMs: number): void {
+    if (!this.options.persistence) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => { this.timer = null; void this.flush(); }, delayMs);
+  }
+
+  private replace(entries: LogEntry[]): void {
+    this.entries = entries.slice(-this.options.capacity);
+    for (const l of this.listeners) l(this.entries);
+  }
+}
+
+export const fileLogPersistence: LogPersistence = {
+  async load() {
+    try {
+      const { data } = await Filesystem.readFile({ path: LOG_FILE, directory: Directory.Data, encoding: Encoding.UTF8 });
+      const raw = JSON.parse(typeof data === "string" ? data : await data.text()) as { entries?: LogEntry[] };
+      return Array.isArray(raw.entries) ? raw.entries : [];
+    } catch {
+      return []; // first launch
+    }
+  },
+  async save(entries) {
+    await Filesystem.writeFile({ path: LOG_FILE, directory: Directory.Data, data: JSON.stringify({ entries }), encoding: Encoding.UTF8 });
+  },
+};
+
+export const diagnostics = new DiagnosticsLog({ persistence: fileLogPersistence });
+
+/** The app-wide log, tagged with `scope`. */
+export function logger(scope: string): ScopedLog {
+  return diagnostics.scope(scope);
+}
@@ -0,0 +1,158 @@
+import { Capacitor } from "@capacitor/core";
+import { Filesystem, Directory, Encoding } from "@capacitor/filesystem";
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import type { Zippable } from "fflate";
+import type { Note, Taxonomy } from "../types";
+import { AUDIO_DIR, hasAudio, readAudio, writeAudio } from "../audioStorage";
+import { arrayBufferToBase64, extToMime, mimeToExt } from "../audioFormat";
+import { formatNotesIndex, mutateNotes, mutateTaxonomy, parseNotesIndex, readNotes, readTaxonomy } from "../notesStore";
+import { mergeTaxonomy } from "../taxonomy";
+import { ImportFormatError, parseGPX, parseGeoJSON, toGPX, toGeoJSON, toKML } from "./formats";
+import { mergeNotes } from "./merge";
+import type { MergeReport } from "./merge";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Library bundles and file import/export
+//
+// A bundle is a zip holding notesIndex.json (the same body the store writes,
+// categories and tags included) and audio/<id>.<ext> for every note with audio. Importing one on another
+// device recreates the library there, merged into what is already present.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const BUNDLE_INDEX = "notesIndex.json";
+
+export type ExportFormat = "bundle" | "geojson" | "gpx" | "kml";
+
+export type ExportFile = { filename: string; blob: Blob };
+
+export type ImportReport = MergeReport & {
+  format: "bundle" | "geojson" | "gpx";
+  /** Categories and tags after the import. */
+  taxonomy: Taxonomy;
+  /** Imported without audio because the file did not carry it. */
+  withoutAudio: number;
+  /** Entries with ids unsafe to use as file names. */
+  rejected: number;
+};
+
+function stamp(): string {
+  return new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+}
+
+export async function buildBundle(notes: Note[]): Promise<Blob> {
+  const files: Zippable = { [BUNDLE_INDEX]: strToU8(formatNotesIndex(notes, await readTaxonomy())) };
+  for (const n of notes) {
+    const audio = await readAudio(n);
+    if (!audio) continue;
+    // Audio is already compressed; storing it saves time for nothing lost.
+    files[n.filePath] = [new Uint8Array(await audio.arrayBuffer()), { level: 0 }];
+  }
+  return new Blob([zipSync(files)], { type: "application/zip" });
+}
+
+export async function buildExport(format: ExportFormat, notes: Note[]): Promise<ExportFile> {
+  const base = `geo-voice-${stamp()}`;
+  switch (format) {
+    case "bundle": return { filename: `${base}.zip`, blob: await buildBundle(notes) };
+    case "geojson": return { filename: `${base}.geojson`, blob: new Blob([toGeoJSON(notes)], { type: "application/geo+json" }) };
+    case "gpx": return { filename: `${base}.gpx`, blob: new Blob([toGPX(notes)], { type: "application/gpx+xml" }) };
+    case "kml": return { filename: `${base}.kml`, blob: new Blob([toKML(notes)], { type: "application/vnd.google-earth.kml+xml" }) };
+  }
+}
+
+/**
+ * Hands the file to the user: a download on web, Documents/ on native (visible
+ * in the Files app). Returns a description of where it went.
+ */
+export async function deliverExport({ filename, blob }: ExportFile): Promise<string> {
+  if (Capacitor.getPlatform() === "web") {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url; a.download = filename; a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 10_000);
+    return `Downloaded ${filename}`;
+  }
+  const isText = !filename.endsWith(".zip");
+  await Filesystem.writeFile({
+    path: filename,
+    directory: Directory.Documents,
+    data: isText ? await blob.text() : arrayBufferToBase64(await blob.arrayBuffer()),
+    encoding: isText ? Encoding.UTF8 : undefined,
+  });
+  return `Saved to Documents/${filename}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Import
+// ─────────────────────────────────────────────────────────────────────────────
+
+const SAFE_ID = /^[A-Za-z0-9_-]+$/;
+
+type Incoming = { note: Note; audio: Blob | null };
+
+function sniff(name: string, head: Uint8Array): ImportReport["format"] {
+  const ext = name.slice(name.lastIndexOf(".") + 1).toLowerCase();
+  if (ext === "zip" || (head[0] === 0x50 && head[1] === 0x4b)) return "bundle";
+  if (ext === "gpx") return "gpx";
+  if (ext === "geojson" || ext === "json") return "geojson";
+  const text = strFromU8(head.subarray(0, 64)).trimStart();
+  if (text.startsWith("<")) return "gpx";
+  if (text.startsWith("{")) return "geojson";
+  throw new ImportFormatError(`Don't know how to import ${name}`);
+}
+
+function readBundle(bytes: Uint8Array): { incoming: Incoming[]; taxonomy: Taxonomy } {
+  let entries: Record<string, Uint8Array>;
+  try { entries = unzipSync(bytes); } catch (err) { throw new ImportFormatError("Not a readable zip", { cause: err }); }
+  const index = entries[BUNDLE_INDEX];
+  if (!index) throw new ImportFormatError(`Bundle has no ${BUNDLE_INDEX}`);
+  const { notes, taxonomy } = parseNotesIndex(strFromU8(index));
+  const incoming = notes.map((note) => {
+    const data = hasAudio(note) ? entries[note.filePath] : undefined;
+    const mimeType = note.mimeType || extToMime(note.filePath.slice(note.filePath.lastIndexOf(".") + 1));
+    return { note, audio: data ? new Blob([data], { type: mimeType }) : null };
+  });
+  return { incoming, taxonomy };
+}
+
+/** Where imported audio lives locally; never trusts the path the file brought along. */
+function localNote(n: Note, audio: Blob | null): Note {
+  if (!audio) return { ...n, filePath: "", webPath: "" };
+  const mimeType = n.mimeType || audio.type;
+  return { ...n, filePath: `${AUDIO_DIR}/${n.id}.${mimeToExt(mimeType)}`, webPath: "", mimeType };
+}
+
+export async function importFile(file: File): Promise<ImportReport> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const format = sniff(file.name, bytes.subarray(0, 64));
+  let parsed: Incoming[];
+  if (format === "bundle") {
+    const bundle = readBundle(bytes);
+    parsed = bundle.incoming;
+    // Labels first, so the notes that reference them never point at nothing.
+    if (bundle.taxonomy.categories.length > 0 || bundle.taxonomy.tags.length > 0) await mutateTaxonomy((t) => mergeTaxonomy(t, bundle.taxonomy));
+  } else {
+    parsed = (format === "gpx" ? parseGPX(strFromU8(bytes)) : parseGeoJSON(strFromU8(bytes))).map((note) => ({ note, audio: null }));
+  }
+
+  const safe = parsed.filter(({ note }) => SAFE_ID.test(note.id));
+  const incoming = safe.map(({ note, audio }) => ({ note: localNote(note, audio), audio }));
+
+  // Audio is written only for notes that will actually be added or that are here
+  // without audio, so duplicates never leave orphaned files for repair to resurrect.
+  const existing = await readNotes();
+  const preview = mergeNotes(existing, incoming.map((i) => i.note));
+  const silent = new Set(existing.filter((n) => !hasAudio(n)).map((n) => n.id));
+  const storing = new Set([...preview.added, ...preview.updated.filter((n) => silent.has(n.id) && hasAudio(n))].map((n) => n.id));
+  const ready: Note[] = [];
+  for (const { note, audio } of incoming) {
+    if (!audio) { ready.push(note); continue; }
+    if (!storing.has(note.id)) { ready.push({ ...note, filePath: "" }); continue; }
+    const webPath = await writeAudio(note.id, note.filePath, { kind: "blob", blob: audio, mimeType: note.mimeType || audio.type });
+    ready.push({ ...note, webPath });
+  }
+
+  let report = preview;
+  await mutateNotes((existing) => (report = mergeNotes(existing, ready)).notes);
+  return { ...report, format, taxonomy: await readTaxonomy(), withoutAudio: report.added.filter((n) => !hasAudio(n)).length, rejected: parsed.length - safe.length };
+}
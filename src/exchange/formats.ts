@@ -0,0 +1,211 @@
+import type { Note, NoteLocation } from "../types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GeoJSON / GPX / KML
+//
+// Writers are pure string builders. Readers turn a file back into Notes: our
+// own GeoJSON round-trips every field, foreign points become audio-less notes
+// whose id is derived from their content so importing the same file twice is
+// recognised as a duplicate.
+// ─────────────────────────────────────────────────────────────────────────────
+
+type Feature = {
+  type: "Feature";
+  id?: string | number;
+  geometry: { type: string; coordinates: unknown } | null;
+  properties: Record<string, unknown> | null;
+};
+
+/** Note fields as GeoJSON properties. webPath is a device-local URL and is left out. */
+type NoteProperties = Omit<Note, "webPath">;
+
+export function toGeoJSON(notes: Note[]): string {
+  const features: Feature[] = notes.map((n) => {
+    const props: Partial<Note> = { ...n };
+    delete props.webPath;
+    return {
+      type: "Feature",
+      id: n.id,
+      geometry: n.location ? { type: "Point", coordinates: lonLat(n.location) } : null,
+      properties: props,
+    };
+  });
+  return JSON.stringify({ type: "FeatureCollection", features }, null, 2);
+}
+
+function lonLat(loc: NoteLocation): number[] {
+  return loc.altitudeM !== null && loc.altitudeM !== undefined ? [loc.lon, loc.lat, loc.altitudeM] : [loc.lon, loc.lat];
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function title(n: Note): string {
+  return n.label || new Date(n.createdAt).toLocaleString();
+}
+
+const GV_NS = "https://github.com/fisheepy/geo-voice";
+
+export function toGPX(notes: Note[]): string {
+  const located = notes.filter((n): n is Note & { location: NoteLocation } => !!n.location);
+  const wpts = located.map((n) => {
+    const { lat, lon, altitudeM } = n.location;
+    return [
+      `  <wpt lat="${lat}" lon="${lon}">`,
+      altitudeM !== null && altitudeM !== undefined ? `    <ele>${altitudeM}</ele>` : null,
+      `    <time>${n.createdAt}</time>`,
+      `    <name>${escapeXml(title(n))}</name>`,
+      n.durationMs ? `    <desc>${Math.round(n.durationMs / 1000)} s voice memo</desc>` : null,
+      `    <extensions><gv:id>${escapeXml(n.id)}</gv:id></extensions>`,
+      `  </wpt>`,
+    ].filter((l) => l !== null).join("\n");
+  });
+  const trks = notes.filter((n) => n.track && n.track.length > 1).map((n) => {
+    const start = Date.parse(n.createdAt);
+    const pts = (n.track ?? []).map((p) => `      <trkpt lat="${p.lat}" lon="${p.lon}"><time>${new Date(start + p.t).toISOString()}</time></trkpt>`);
+    return [`  <trk>`, `    <name>${escapeXml(title(n))}</name>`, `    <trkseg>`, ...pts, `    </trkseg>`, `  </trk>`].join("\n");
+  });
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="geo-voice" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gv="${GV_NS}">`,
+    ...wpts,
+    ...trks,
+    `</gpx>`,
+  ].join("\n");
+}
+
+export function toKML(notes: Note[]): string {
+  const placemarks = notes.filter((n): n is Note & { location: NoteLocation } => !!n.location).map((n) => {
+    const point = `<Point><coordinates>${lonLat(n.location).join(",")}</coordinates></Point>`;
+    const geometry = n.track && n.track.length > 1
+      ? `<MultiGeometry>${point}<LineString><coordinates>${n.track.map((p) => `${p.lon},${p.lat}`).join(" ")}</coordinates></LineString></MultiGeometry>`
+      : point;
+    return [
+      `    <Placemark id="${escapeXml(n.id)}">`,
+      `      <name>${escapeXml(title(n))}</name>`,
+      `      <TimeStamp><when>${n.createdAt}</when></TimeStamp>`,
+      `      <ExtendedData>`,
+      `        <Data name="id"><value>${escapeXml(n.id)}</value></Data>`,
+      n.durationMs ? `        <Data name="durationMs"><value>${n.durationMs}</value></Data>` : null,
+      n.mimeType ? `        <Data name="mimeType"><value>${escapeXml(n.mimeType)}</value></Data>` : null,
+      `      </ExtendedData>`,
+      `      ${geometry}`,
+      `    </Placemark>`,
+    ].filter((l) => l !== null).join("\n");
+  });
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+    `  <Document>`,
+    `    <name>Geo Voice memos</name>`,
+    ...placemarks,
+    `  </Document>`,
+    `</kml>`,
+  ].join("\n");
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Readers
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class ImportFormatError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "ImportFormatError";
+  }
+}
+
+/** Stable id for a foreign point, so the same file imported twice yields the same ids. */
+function contentId(lat: number, lon: number, time: string, name: string): string {
+  const key = `${lat.toFixed(6)},${lon.toFixed(6)},${time},${name}`;
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  return `import-${(hash >>> 0).toString(36)}`;
+}
+
+function importedPoint(lat: number, lon: number, opts: { time?: string; name?: string; altitudeM?: number; id?: string }): Note {
+  const timed = !!opts.time && !Number.isNaN(Date.parse(opts.time));
+  // Untimed points are dated to the import; their id must not depend on that.
+  const createdAt = timed ? new Date(opts.time as string).toISOString() : new Date().toISOString();
+  return {
+    id: opts.id || contentId(lat, lon, timed ? createdAt : "", opts.name ?? ""),
+    filePath: "",
+    webPath: "",
+    createdAt,
+    label: opts.name || undefined,
+    location: { lat, lon, altitudeM: opts.altitudeM, fixAt: createdAt, fixAgeMs: 0, source: "imported" },
+  };
+}
+
+function isValidLatLon(lat: number, lon: number): boolean {
+  return Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+}
+
+/** Our own properties carry a full Note; anything else is treated as a plain point. */
+function isNoteProperties(p: Record<string, unknown>): p is NoteProperties {
+  return typeof p.id === "string" && typeof p.createdAt === "string" && typeof p.filePath === "string";
+}
+
+/** A Point geometry's position, or null when it has no usable lat and lon. */
+function pointOf(geometry: Feature["geometry"]): { lat: number; lon: number; altitudeM?: number } | null {
+  if (geometry?.type !== "Point" || !Array.isArray(geometry.coordinates)) return null;
+  const [lon, lat, alt] = geometry.coordinates as unknown[];
+  if (typeof lat !== "number" || typeof lon !== "number" || !isValidLatLon(lat, lon)) return null;
+  return { lat, lon, altitudeM: typeof alt === "number" && Number.isFinite(alt) ? alt : undefined };
+}
+
+/**
+ * The note's own location when its lat and lon are usable. Otherwise the
+ * feature's point, keeping what the properties did say about the fix; a note
+ * with neither is imported without a location.
+ */
+function noteLocation(props: NoteProperties, point: ReturnType<typeof pointOf>): NoteLocation | undefined {
+  const loc: Partial<NoteLocation> = typeof props.location === "object" && props.location !== null ? props.location : {};
+  if (typeof loc.lat === "number" && typeof loc.lon === "number" && isValidLatLon(loc.lat, loc.lon)) return loc as NoteLocation;
+  if (!point) return undefined;
+  return { fixAt: props.createdAt, fixAgeMs: 0, source: "imported", ...loc, lat: point.lat, lon: point.lon, altitudeM: loc.altitudeM ?? point.altitudeM };
+}
+
+export function parseGeoJSON(text: string): Note[] {
+  let raw: unknown;
+  try { raw = JSON.parse(text); } catch (err) { throw new ImportFormatError("Not valid JSON", { cause: err }); }
+  const root = raw as { type?: string; features?: Feature[] };
+  const features = root.type === "FeatureCollection" ? root.features ?? [] : root.type === "Feature" ? [raw as Feature] : null;
+  if (!features) throw new ImportFormatError("Not a GeoJSON Feature or FeatureCollection");
+
+  const out: Note[] = [];
+  for (const f of features) {
+    const props = f.properties ?? {};
+    const point = pointOf(f.geometry);
+    if (isNoteProperties(props)) { out.push({ ...props, location: noteLocation(props, point), webPath: "" }); continue; }
+    if (!point) continue;
+    const name = [props.name, props.title, props.label].find((v) => typeof v === "string") as string | undefined;
+    const time = [props.time, props.timestamp, props.createdAt].find((v) => typeof v === "string") as string | undefined;
+    out.push(importedPoint(point.lat, point.lon, { name, time, altitudeM: point.altitudeM }));
+  }
+  return out;
+}
+
+function childText(el: Element, tag: string): string | undefined {
+  return el.getElementsByTagName(tag)[0]?.textContent?.trim() || undefined;
+}
+
+/** GPX waypoints (and route points, which some apps use for the same thing). Tracks are not memos and are skipped. */
+export function parseGPX(text: string): Note[] {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0 || doc.documentElement.nodeName !== "gpx") throw new ImportFormatError("Not a GPX file");
+  const out: Note[] = [];
+  for (const el of [...doc.getElementsByTagName("wpt"), ...doc.getElementsByTagName("rtept")]) {
+    const lat = Number(el.getAttribute("lat")); const lon = Number(el.getAttribute("lon"));
+    if (!isValidLatLon(lat, lon)) continue;
+    const ele = childText(el, "ele");
+    out.push(importedPoint(lat, lon, {
+      name: childText(el, "name"),
+      time: childText(el, "time"),
+      altitudeM: ele !== undefined && Number.isFinite(Number(ele)) ? Number(ele) : undefined,
+      id: childText(el, "gv:id"),
+    }));
+  }
+  return out;
+}
@@ -0,0 +1,5 @@
+export { buildExport, deliverExport, importFile } from "./bundle";
+export type { ExportFormat, ExportFile, ImportReport } from "./bundle";
+export { ImportFormatError, parseGPX, parseGeoJSON, toGPX, toGeoJSON, toKML } from "./formats";
+export { mergeNotes } from "./merge";
+export type { MergeReport } from "./merge";
@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mergeNotes } from "./merge";
+import type { Note } from "../types";
+
+const at = "2025-03-01T09:00:00.000Z";
+const place = (id: string): Note => ({ id, filePath: "", webPath: "", createdAt: at, label: "Bench" });
+const memo = (id: string): Note => ({ ...place(id), filePath: `audio/${id}.m4a`, webPath: "", mimeType: "audio/mp4", durationMs: 4_000 });
+
+test("a note here without audio takes the imported recording", () => {
+  const report = mergeNotes([place("n1")], [memo("n1")]);
+  assert.deepEqual(report.updated.map((n) => n.id), ["n1"]);
+  const merged = report.notes[0];
+  assert.equal(merged.filePath, "audio/n1.m4a");
+  assert.equal(merged.mimeType, "audio/mp4");
+  assert.equal(merged.durationMs, 4_000);
+  assert.equal(merged.label, "Bench");
+});
+
+test("local audio is kept and an audio-less import adds no type", () => {
+  const local = { ...memo("n1"), filePath: "audio/n1.webm", mimeType: "audio/webm" };
+  assert.deepEqual(mergeNotes([local], [memo("n1")]).duplicates.map((n) => n.id), ["n1"]);
+
+  const report = mergeNotes([place("n2")], [{ ...place("n2"), mimeType: "audio/mp4" }]);
+  assert.deepEqual(report.duplicates.map((n) => n.id), ["n2"]);
+  assert.equal(report.notes[0].mimeType, undefined);
+});
+
+test("the same recording under another id is a duplicate", () => {
+  const report = mergeNotes([memo("old")], [memo("new")]);
+  assert.deepEqual(report.added, []);
+  assert.deepEqual(report.notes.map((n) => n.id), ["old"]);
+});
@@ -0,0 +1,68 @@
+import type { Note } from "../types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Merging imported notes into the library
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type MergeReport = {
+  /** New to this library. */
+  added: Note[];
+  /** Already here under the same id; the local copy gained fields (or the audio) it was missing. */
+  updated: Note[];
+  /** Already here (same id, or same recording under another id); nothing to do. */
+  duplicates: Note[];
+  /** The merged library. */
+  notes: Note[];
+};
+
+/**
+ * Same recording imported under a different id, e.g. a bundle re-exported by an
+ * older build. Start second, duration and position to ~1 m have to agree.
+ */
+function fingerprint(n: Note): string | null {
+  if (!n.durationMs) return null;
+  const at = Math.floor(Date.parse(n.createdAt) / 1000);
+  const where = n.location ? `${n.location.lat.toFixed(5)},${n.location.lon.toFixed(5)}` : "-";
+  return `${at}|${n.durationMs}|${where}`;
+}
+
+/**
+ * Fills what `local` lacks from `incoming`; local values always win. Audio
+ * moves as a whole: a local copy without audio takes the incoming file
+ * reference and its type, and a type alone is never taken without audio.
+ */
+function fillMissing(local: Note, incoming: Note): Note | null {
+  const next: Note = { ...local };
+  let changed = false;
+  if (local.filePath === "" && incoming.filePath !== "") {
+    next.filePath = incoming.filePath; next.webPath = incoming.webPath; next.mimeType = incoming.mimeType;
+    changed = true;
+  }
+  for (const key of ["location", "track", "label", "durationMs", "categoryId", "tagIds"] as const) {
+    if (next[key] === undefined && incoming[key] !== undefined) { (next as Record<string, unknown>)[key] = incoming[key]; changed = true; }
+  }
+  if (next.mimeType === undefined && next.filePath !== "" && incoming.filePath !== "" && incoming.mimeType !== undefined) { next.mimeType = incoming.mimeType; changed = true; }
+  return changed ? next : null;
+}
+
+export function mergeNotes(existing: Note[], incoming: Note[]): MergeReport {
+  const byId = new Map(existing.map((n) => [n.id, n]));
+  const prints = new Set(existing.map(fingerprint).filter((p): p is string => p !== null));
+  const added: Note[] = []; const updated: Note[] = []; const duplicates: Note[] = [];
+
+  for (const n of incoming) {
+    const local = byId.get(n.id);
+    if (local) {
+      const filled = fillMissing(local, n);
+      if (filled) { byId.set(n.id, filled); updated.push(filled); } else duplicates.push(n);
+      continue;
+    }
+    const print = fingerprint(n);
+    if (print && prints.has(print)) { duplicates.push(n); continue; }
+    byId.set(n.id, n); added.push(n);
+    if (print) prints.add(print);
+  }
+
+  const notes = [...byId.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return { added, updated, duplicates, notes };
+}
@@ -0,0 +1,86 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Geofence, WalkQueue } from "./geofence";
+import type { PositionFix, ProximityEvent } from "./geofence";
+
+// Fixes are placed due north of ORIGIN, where a degree of latitude is ~111 km.
+const ORIGIN = { lat: 51.5, lon: -0.12 };
+const M_PER_DEG_LAT = 111_195;
+
+/** A fix `northM` metres north of the origin. */
+function fix(northM: number, at: number, accuracyM?: number): PositionFix {
+  return { lat: ORIGIN.lat + northM / M_PER_DEG_LAT, lon: ORIGIN.lon, at, accuracyM };
+}
+
+/** Feeds a simulated walk and returns the events as "enter:a@3" strings. */
+function walk(fence: Geofence, northM: number[], accuracyM?: number): string[] {
+  const out: string[] = [];
+  northM.forEach((m, i) => { for (const e of fence.update(fix(m, i, accuracyM))) out.push(`${e.type}:${e.id}@${i}`); });
+  return out;
+}
+
+test("enters inside the radius and only exits past the margin", () => {
+  const fence = new Geofence({ radiusM: 25, exitMarginM: 15 });
+  fence.setTargets([{ id: "a", ...ORIGIN }]);
+  // Approach, jitter about the radius, wander out to 38 m (inside the margin), then leave.
+  assert.deepEqual(walk(fence, [100, 60, 24, 27, 23, 30, 38, 20, 45, 100]), ["enter:a@2", "exit:a@8"]);
+});
+
+test("jitter across the edge never re-triggers", () => {
+  const fence = new Geofence({ radiusM: 25, exitMarginM: 15 });
+  fence.setTargets([{ id: "a", ...ORIGIN }]);
+  const events = walk(fence, [26, 24, 26, 24, 26, 24, 39, 24]);
+  assert.deepEqual(events, ["enter:a@1"]);
+});
+
+test("comes back in after a real exit", () => {
+  const fence = new Geofence({ radiusM: 25, exitMarginM: 15 });
+  fence.setTargets([{ id: "a", ...ORIGIN }]);
+  assert.deepEqual(walk(fence, [10, 50, 10]), ["enter:a@0", "exit:a@1", "enter:a@2"]);
+});
+
+test("ignores fixes worse than maxAccuracyM", () => {
+  const fence = new Geofence({ radiusM: 25, exitMarginM: 15, maxAccuracyM: 50 });
+  fence.setTargets([{ id: "a", ...ORIGIN }]);
+  assert.deepEqual(walk(fence, [0, 5], 80), []);
+  assert.deepEqual(walk(fence, [0], 10), ["enter:a@0"]);
+});
+
+test("reports exits first and enters nearest first", () => {
+  const fence = new Geofence({ radiusM: 25, exitMarginM: 15 });
+  fence.setTargets([{ id: "behind", ...ORIGIN }]);
+  fence.update(fix(0, 0));
+  fence.setTargets([
+    { id: "behind", ...ORIGIN },
+    { id: "far", lat: ORIGIN.lat + 120 / M_PER_DEG_LAT, lon: ORIGIN.lon },
+    { id: "near", lat: ORIGIN.lat + 105 / M_PER_DEG_LAT, lon: ORIGIN.lon },
+  ]);
+  const events = fence.update(fix(100, 1));
+  assert.deepEqual(events.map((e) => `${e.type}:${e.id}`), ["exit:behind", "enter:near", "enter:far"]);
+});
+
+test("forgets removed targets without an exit", () => {
+  const fence = new Geofence();
+  fence.setTargets([{ id: "a", ...ORIGIN }]);
+  fence.update(fix(0, 0));
+  fence.setTargets([]);
+  assert.deepEqual(fence.update(fix(500, 1)), []);
+});
+
+test("the walk queue plays in order and respects the cooldown", () => {
+  let now = 0;
+  const queue = new WalkQueue({ cooldownMs: 60_000, now: () => now });
+  const enter = (id: string): ProximityEvent => ({ type: "enter", id, distanceM: 0, at: now });
+  const exit = (id: string): ProximityEvent => ({ type: "exit", id, distanceM: 100, at: now });
+
+  assert.equal(queue.handle([enter("a"), enter("b"), enter("c")]), "a");
+  assert.deepEqual(queue.getSnapshot(), { playing: "a", queued: ["b", "c"] });
+  assert.equal(queue.handle([exit("c")]), null);
+  assert.equal(queue.finished("a"), "b");
+  assert.equal(queue.finished("b"), null);
+
+  now = 30_000;
+  assert.equal(queue.handle([enter("a")]), null, "a is still cooling down");
+  now = 61_000;
+  assert.equal(queue.handle([enter("a")]), "a");
+});
@@ -0,0 +1,153 @@
+import { distanceM } from "./geo";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Walk mode geofencing
+//
+// Geofence turns a stream of position fixes into enter/exit events per memo;
+// WalkQueue decides what to play from those events. Neither touches Capacitor
+// or the DOM, so both run under Node against simulated position streams.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type GeofenceOptions = {
+  /** A memo triggers once the user is this close to it. */
+  radiusM: number;
+  /**
+   * Hysteresis: the user only counts as having left once farther than
+   * radiusM + exitMarginM, so GPS jitter at the edge never re-triggers.
+   */
+  exitMarginM: number;
+  /** Fixes worse than this are ignored rather than trusted. */
+  maxAccuracyM: number;
+};
+
+export const DEFAULT_GEOFENCE: GeofenceOptions = { radiusM: 25, exitMarginM: 15, maxAccuracyM: 50 };
+
+export type GeofenceTarget = { id: string; lat: number; lon: number };
+
+export type PositionFix = { lat: number; lon: number; accuracyM?: number; at: number };
+
+export type ProximityEvent = { type: "enter" | "exit"; id: string; distanceM: number; at: number };
+
+export class Geofence {
+  private options: GeofenceOptions;
+  private targets: GeofenceTarget[] = [];
+  private inside = new Set<string>();
+
+  constructor(options: Partial<GeofenceOptions> = {}) {
+    this.options = { ...DEFAULT_GEOFENCE, ...options };
+  }
+
+  setOptions(options: Partial<GeofenceOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /** Replaces the watched memos. Memos that disappear are forgotten without an exit event. */
+  setTargets(targets: GeofenceTarget[]): void {
+    this.targets = targets;
+    const ids = new Set(targets.map((t) => t.id));
+    for (const id of this.inside) if (!ids.has(id)) this.inside.delete(id);
+  }
+
+  /** Feeds one fix; returns enter events nearest first, after any exits. */
+  update(fix: PositionFix): ProximityEvent[] {
+    const { radiusM, exitMarginM, maxAccuracyM } = this.options;
+    if (fix.accuracyM !== undefined && fix.accuracyM > maxAccuracyM) return [];
+    const exits: ProximityEvent[] = [];
+    const enters: ProximityEvent[] = [];
+    for (const t of this.targets) {
+      const d = distanceM(fix, t);
+      if (this.inside.has(t.id)) {
+        if (d > radiusM + exitMarginM) { this.inside.delete(t.id); exits.push({ type: "exit", id: t.id, distanceM: d, at: fix.at }); }
+      } else if (d <= radiusM) {
+        this.inside.add(t.id); enters.push({ type: "enter", id: t.id, distanceM: d, at: fix.at });
+      }
+    }
+    return [...exits, ...enters.sort((a, b) => a.distanceM - b.distanceM)];
+  }
+
+  reset(): void {
+    this.inside.clear();
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Playback queue
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type WalkQueueOptions = {
+  /** Once a memo has started playing it will not trigger again for this long. */
+  cooldownMs: number;
+  now?: () => number;
+};
+
+export type WalkSnapshot = { playing: string | null; queued: string[] };
+
+export class WalkQueue {
+  private readonly cooldownMs: number;
+  private readonly now: () => number;
+  private lastStarted = new Map<string, number>();
+  private snapshot: WalkSnapshot = { playing: null, queued: [] };
+  private listeners = new Set<(s: WalkSnapshot) => void>();
+
+  constructor(options: WalkQueueOptions) {
+    this.cooldownMs = options.cooldownMs;
+    this.now = options.now ?? Date.now;
+  }
+
+  getSnapshot = (): WalkSnapshot => this.snapshot;
+
+  subscribe = (listener: (s: WalkSnapshot) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  coolingDown(id: string): boolean {
+    const started = this.lastStarted.get(id);
+    return started !== undefined && this.now() - started < this.cooldownMs;
+  }
+
+  /**
+   * Applies geofence events. Entering queues a memo (unless it is cooling down
+   * or already pending); leaving drops it from the queue if it has not started.
+   * Returns the memo to start now, if the player was idle.
+   */
+  handle(events: ProximityEvent[]): string | null {
+    const { playing } = this.snapshot;
+    let { queued } = this.snapshot;
+    for (const e of events) {
+      if (e.type === "exit") { queued = queued.filter((id) => id !== e.id); continue; }
+      if (e.id === playing || queued.includes(e.id) || this.coolingDown(e.id)) continue;
+      queued = [...queued, e.id];
+    }
+    this.set({ playing, queued });
+    return playing === null ? this.advance() : null;
+  }
+
+  /** Call when the current memo ends (or fails to play). Returns the next one to start, if any. */
+  finished(id: string): string | null {
+    if (this.snapshot.playing !== id) return null;
+    this.set({ ...this.snapshot, playing: null });
+    return this.advance();
+  }
+
+  /** Drops everything pending; the cooldown history survives so a restart does not replay. */
+  clear(): void {
+    this.set({ playing: null, queued: [] });
+  }
+
+  private advance(): string | null {
+    const queued = this.snapshot.queued.filter((id) => !this.coolingDown(id));
+    const [next, ...rest] = queued;
+    if (next === undefined) { this.set({ playing: null, queued: [] }); return null; }
+    this.lastStarted.set(next, this.now());
+    this.set({ playing: next, queued: rest });
+    return next;
+  }
+
+  private set(next: WalkSnapshot): void {
+    const prev = this.snapshot;
+    if (prev.playing === next.playing && prev.queued.length === next.queued.length && prev.queued.every((id, i) => id === next.queued[i])) return;
+    this.snapshot = next;
+    for (const l of this.listeners) l(next);
+  }
+}
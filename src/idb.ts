@@ -0,0 +1,52 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Minimal promise wrappers around IndexedDB
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Opens (and memoizes) a database; `upgrade` runs inside onupgradeneeded. A failed open is retried next call. */
+export function databaseOpener(name: string, version: number, upgrade: (db: IDBDatabase, tx: IDBTransaction) => void): () => Promise<IDBDatabase> {
+  let pending: Promise<IDBDatabase> | null = null;
+  return () => {
+    if (!pending) {
+      pending = new Promise<IDBDatabase>((resolve, reject) => {
+        const req = indexedDB.open(name, version);
+        req.onupgradeneeded = () => upgrade(req.result, req.transaction!);
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+      pending.catch(() => { pending = null; });
+    }
+    return pending;
+  };
+}
+
+export function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Runs `fn` in a single-store transaction and resolves its request's result once the transaction commits. */
+export async function withStore<T>(db: IDBDatabase, store: string, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = fn(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error ?? req.error);
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+  });
+}
+
+/** Visits every record of `source` (a store or index) in key order; return false from `visit` to stop early. */
+export function iterate<T>(source: IDBObjectStore | IDBIndex, visit: (value: T, cursor: IDBCursorWithValue) => boolean | void, query?: IDBKeyRange | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const req = source.openCursor(query);
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return resolve();
+      if (visit(cursor.value as T, cursor) === false) return resolve();
+      cursor.continue();
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
@@ -0,0 +1,92 @@
+import { Geolocation } from "@capacitor/geolocation";
+import type { Position } from "@capacitor/geolocation";
+import type { LocationSource, NoteLocation } from "./types";
+import { logger } from "./diagnostics/log";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Location capture
+// ─────────────────────────────────────────────────────────────────────────────
+
+const log = logger("location");
+
+export type CapturePolicy = {
+  /** Give up waiting after this long and keep the best fix seen so far (if any). */
+  timeoutMs: number;
+  /** Stop as soon as a fix at least this accurate arrives. */
+  goodEnoughAccuracyM: number;
+  /** Cached fixes older than this are not accepted from the platform. */
+  maxFixAgeMs: number;
+};
+
+export const DEFAULT_CAPTURE_POLICY: CapturePolicy = { timeoutMs: 10_000, goodEnoughAccuracyM: 30, maxFixAgeMs: 30_000 };
+
+// Thresholds for drawing a note as "not quite trustworthy" on the map.
+export const LOW_ACCURACY_M = 100;
+export const STALE_FIX_MS = 2 * 60_000;
+
+export type LocationQuality = "good" | "low-accuracy" | "stale";
+
+export function fromPosition(pos: Position, source: LocationSource, referenceTime: number): NoteLocation {
+  const c = pos.coords;
+  return {
+    lat: c.latitude,
+    lon: c.longitude,
+    accuracyM: c.accuracy,
+    altitudeM: c.altitude,
+    altitudeAccuracyM: c.altitudeAccuracy ?? null,
+    headingDeg: c.heading,
+    speedMps: c.speed,
+    fixAt: new Date(pos.timestamp).toISOString(),
+    fixAgeMs: referenceTime - pos.timestamp,
+    source,
+  };
+}
+
+/**
+ * Watches position until a fix meets `policy.goodEnoughAccuracyM` or the
+ * timeout passes, then resolves the most accurate fix seen (null if none).
+ * `referenceTime` is what fixAgeMs is measured against, normally the recording start.
+ */
+export async function captureLocation(source: LocationSource, referenceTime = Date.now(), policy: CapturePolicy = DEFAULT_CAPTURE_POLICY): Promise<NoteLocation | null> {
+  let best: Position | null = null;
+  let watchId: string | null = null;
+  let finish: () => void = () => undefined;
+  const done = new Promise<void>((resolve) => { finish = resolve; });
+  const timer = setTimeout(() => finish(), policy.timeoutMs);
+  try {
+    watchId = await Geolocation.watchPosition({ enableHighAccuracy: true, timeout: policy.timeoutMs, maximumAge: policy.maxFixAgeMs }, (pos) => {
+      if (!pos) return;
+      if (!best || pos.coords.accuracy < best.coords.accuracy) best = pos;
+      if (pos.coords.accuracy <= policy.goodEnoughAccuracyM) finish();
+    });
+    await done;
+  } catch (err) {
+    log.warn("location capture failed", err);
+  } finally {
+    clearTimeout(timer);
+    if (watchId) await Geolocation.clearWatch({ id: watchId }).catch(() => undefined);
+  }
+  return best ? fromPosition(best, source, referenceTime) : null;
+}
+
+export function manualLocation(lat: number, lon: number, referenceTime: number): NoteLocation {
+  const now = Date.now();
+  return { lat, lon, fixAt: new Date(now).toISOString(), fixAgeMs: referenceTime - now, source: "manual" };
+}
+
+export function locationQuality(loc: NoteLocation): LocationQuality {
+  if (loc.source === "manual" || loc.source === "legacy" || loc.source === "imported") return "good";
+  if (loc.accuracyM !== undefined && loc.accuracyM > LOW_ACCURACY_M) return "low-accuracy";
+  if (Math.abs(loc.fixAgeMs) > STALE_FIX_MS) return "stale";
+  return "good";
+}
+
+export function describeLocation(loc: NoteLocation): string {
+  const parts = [`${loc.lat.toFixed(5)}, ${loc.lon.toFixed(5)}`];
+  if (loc.accuracyM !== undefined) parts.push(`±${Math.round(loc.accuracyM)} m`);
+  if (loc.altitudeM !== null && loc.altitudeM !== undefined) parts.push(`alt ${Math.round(loc.altitudeM)} m`);
+  if (loc.source === "manual") parts.push("placed by hand");
+  else if (loc.source === "imported") parts.push("imported");
+  else if (Math.abs(loc.fixAgeMs) >= 60_000) parts.push(`fix ${Math.round(Math.abs(loc.fixAgeMs) / 60_000)} min ${loc.fixAgeMs >= 0 ? "before" : "after"} recording`);
+  return parts.join(" · ");
+}
@@ -0,0 +1,76 @@
+import type { Note } from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Map filters: text search, date range, timeline scrubber, duration and format
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type NoteFilter = {
+  /** Full-text query over labels and transcripts; resolved by the caller through a SearchIndex. */
+  query?: string;
+  /** Inclusive local dates as yyyy-mm-dd (what <input type="date"> produces). */
+  fromDate?: string;
+  toDate?: string;
+  /** Timeline scrubber position: only notes created at or before this epoch ms. */
+  until?: number;
+  minDurationMs?: number;
+  maxDurationMs?: number;
+  /** Format families as returned by mimeFamily(); empty/undefined means all. */
+  formats?: string[];
+  /** Categories switched off in the map legend; UNCATEGORIZED stands for notes without one. */
+  hiddenCategories?: string[];
+};
+
+export const UNCATEGORIZED = "";
+
+export const EMPTY_FILTER: NoteFilter = {};
+
+/** "audio/webm;codecs=opus" → "WEBM". Notes without a mime type group under "UNKNOWN". */
+export function mimeFamily(mimeType: string | undefined): string {
+  if (!mimeType) return "UNKNOWN";
+  return mimeType.replace(/^audio\//, "").split(";")[0].toUpperCase();
+}
+
+export function formatsIn(notes: Note[]): string[] {
+  return [...new Set(notes.map((n) => mimeFamily(n.mimeType)))].sort();
+}
+
+export function timeSpan(notes: Note[]): { min: number; max: number } | null {
+  if (notes.length === 0) return null;
+  let min = Infinity; let max = -Infinity;
+  for (const n of notes) { const t = Date.parse(n.createdAt); if (t < min) min = t; if (t > max) max = t; }
+  return { min, max };
+}
+
+function localDayStart(date: string): number {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(y, m - 1, d).getTime();
+}
+
+/**
+ * `matches` are the ids hit by `f.query`; it is ignored when the query is blank.
+ * `categoryIds` are the categories that exist, so notes pointing at a deleted
+ * one count as uncategorized.
+ */
+export function applyNoteFilter<T extends Note>(notes: T[], f: NoteFilter, matches?: ReadonlySet<string>, categoryIds?: ReadonlySet<string>): T[] {
+  const byText = f.query?.trim() && matches ? matches : null;
+  const from = f.fromDate ? localDayStart(f.fromDate) : -Infinity;
+  const to = f.toDate ? localDayStart(f.toDate) + 24 * 3600_000 : Infinity;
+  const until = f.until ?? Infinity;
+  const formats = f.formats && f.formats.length > 0 ? new Set(f.formats) : null;
+  const hidden = f.hiddenCategories && f.hiddenCategories.length > 0 ? new Set(f.hiddenCategories) : null;
+  return notes.filter((n) => {
+    const t = Date.parse(n.createdAt);
+    if (byText && !byText.has(n.id)) return false;
+    if (t < from || t >= to || t > until) return false;
+    const d = n.durationMs ?? 0;
+    if (f.minDurationMs !== undefined && d < f.minDurationMs) return false;
+    if (f.maxDurationMs !== undefined && d > f.maxDurationMs) return false;
+    if (formats && !formats.has(mimeFamily(n.mimeType))) return false;
+    if (hidden && hidden.has(n.categoryId && (!categoryIds || categoryIds.has(n.categoryId)) ? n.categoryId : UNCATEGORIZED)) return false;
+    return true;
+  });
+}
+
+export function isFilterActive(f: NoteFilter): boolean {
+  return !!(f.query?.trim() || f.fromDate || f.toDate || f.until !== undefined || f.minDurationMs !== undefined || f.maxDurationMs !== undefined || (f.formats && f.formats.length > 0));
+}
@@ -0,0 +1,385 @@
+import { Capacitor } from "@capacitor/core";
+import { Filesystem, Directory, Encoding } from "@capacitor/filesystem";
+import type { Note, Taxonomy, Tombstone } from "./types";
+import { sanitizeTaxonomy } from "./taxonomy";
+import { deleteAudio, extractInlineAudio, hasAudio, listAudio, webPathFor } from "./audioStorage";
+import { deleteTranscript } from "./transcription/storage";
+import { VaultError } from "./vault/crypto";
+import { vault } from "./vault/vault";
+import { logger } from "./diagnostics/log";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Notes index store
+//
+// notesIndex.json is the single source of truth for the library. Every write
+// goes through one promise queue, lands in a temp file first and is swapped in
+// by rename, with the previous good copy kept as notesIndex.json.bak. With the
+// vault on, all of them hold the index sealed.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const log = logger("notes");
+
+const NOTES_INDEX = "notesIndex.json";
+const NOTES_TMP = `${NOTES_INDEX}.tmp`;
+const NOTES_BAK = `${NOTES_INDEX}.bak`;
+/** Oldest tombstones are dropped past this; a device that has not synced in that many deletes gets a full pull instead. */
+const MAX_TOMBSTONES = 1000;
+
+export const NOTES_SCHEMA_VERSION = 4;
+
+type IndexFile = { version: number; savedAt: string; notes: Note[]; taxonomy?: Taxonomy; tombstones?: Tombstone[] };
+
+export const EMPTY_TAXONOMY: Taxonomy = { categories: [], tags: [] };
+
+export type NotesStoreErrorCode = "CORRUPT" | "NEWER_SCHEMA" | "WRITE_FAILED";
+
+export class NotesStoreError extends Error {
+  readonly code: NotesStoreErrorCode;
+  constructor(code: NotesStoreErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "NotesStoreError";
+    this.code = code;
+  }
+}
+
+// Migrations are keyed by the version they upgrade *from*. Each receives the raw
+// notes array of that version and returns the notes of version + 1.
+type Migration = (notes: unknown[]) => unknown[];
+const MIGRATIONS: Record<number, Migration> = {
+  // v0: bare JSON array written by the original readNotes/writeNotes. Same shape, just unversioned.
+  0: (notes) => notes,
+  // v1 → v2: flat lat/lon with (0,0) meaning "no fix" becomes an optional `location` object.
+  1: (notes) => (notes as (Note & { lat?: number; lon?: number })[]).map(({ lat, lon, ...rest }) => {
+    if (typeof lat !== "number" || typeof lon !== "number" || (lat === 0 && lon === 0)) return rest;
+    return { ...rest, location: { lat, lon, fixAt: rest.createdAt, fixAgeMs: 0, source: "legacy" } };
+  }),
+  // v2 → v3: categories and tags arrive. Notes are unchanged; the bump stops older builds from rewriting the file without its taxonomy.
+  2: (notes) => notes,
+  // v3 → v4: notes gain updatedAt and the index keeps tombstones for sync. Same reason for the bump: an older build would drop the tombstones.
+  3: (notes) => notes,
+};
+
+function migrate(version: number, notes: unknown[]): Note[] {
+  let v = version; let out = notes;
+  while (v < NOTES_SCHEMA_VERSION) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new NotesStoreError("CORRUPT", `No migration from notes schema v${v}`);
+    out = step(out); v++;
+  }
+  return out as Note[];
+}
+
+type Parsed = { notes: Note[]; taxonomy: Taxonomy; tombstones: Tombstone[]; fromVersion: number };
+
+function parseTombstones(raw: unknown): Tombstone[] {
+  return Array.isArray(raw) ? raw.filter((t): t is Tombstone => typeof t?.id === "string" && typeof t?.deletedAt === "string") : [];
+}
+
+function parseIndex(text: string): Parsed {
+  const raw: unknown = JSON.parse(text);
+  if (Array.isArray(raw)) return { notes: migrate(0, raw), taxonomy: EMPTY_TAXONOMY, tombstones: [], fromVersion: 0 };
+  if (!raw || typeof raw !== "object") throw new Error("index is not an object");
+  const { version, notes, taxonomy, tombstones } = raw as Partial<IndexFile>;
+  if (typeof version !== "number" || !Array.isArray(notes)) throw new Error("index is missing version/notes");
+  if (version > NOTES_SCHEMA_VERSION) throw new NotesStoreError("NEWER_SCHEMA", `notesIndex.json is schema v${version}; this build understands up to v${NOTES_SCHEMA_VERSION}`);
+  return { notes: migrate(version, notes), taxonomy: sanitizeTaxonomy(taxonomy), tombstones: parseTombstones(tombstones), fromVersion: version };
+}
+
+/** A damaged sealed file fails like unparsable JSON and falls back the same way; a locked vault does not. */
+async function openIndex(text: string): Promise<Parsed> {
+  return parseIndex(await vault.openText(text));
+}
+
+const isFatal = (err: unknown) => err instanceof VaultError || (err instanceof NotesStoreError && err.code === "NEWER_SCHEMA");
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Filesystem helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function exists(path: string): Promise<boolean> {
+  try { await Filesystem.stat({ path, directory: Directory.Data }); return true; } catch { return false; }
+}
+
+async function readText(path: string): Promise<string | null> {
+  if (!(await exists(path))) return null;
+  const res = await Filesystem.readFile({ path, directory: Directory.Data, encoding: Encoding.UTF8 });
+  const raw = res.data as unknown; // string | Blob (web)
+  return typeof raw === "string" ? raw : await (raw as Blob).text();
+}
+
+async function removeIfExists(path: string): Promise<void> {
+  if (await exists(path)) await Filesystem.deleteFile({ path, directory: Directory.Data });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Load / save
+// ─────────────────────────────────────────────────────────────────────────────
+
+let cache: Note[] | null = null;
+let taxonomyCache: Taxonomy = EMPTY_TAXONOMY;
+let tombstoneCache: Tombstone[] = [];
+let queue: Promise<unknown> = Promise.resolve();
+
+/** Runs `task` after every previously queued store operation has settled. */
+function serialize<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task, task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+async function load(): Promise<Parsed> {
+  const main = await readText(NOTES_INDEX);
+  if (main === null) {
+    // A crash between the two renames in save() leaves only tmp + bak behind.
+    for (const fallback of [NOTES_TMP, NOTES_BAK]) {
+      const text = await readText(fallback);
+      if (text === null) continue;
+      try { return await openIndex(text); } catch (err) { if (isFatal(err)) throw err; }
+    }
+    return { notes: [], taxonomy: EMPTY_TAXONOMY, tombstones: [], fromVersion: NOTES_SCHEMA_VERSION };
+  }
+  try {
+    return await openIndex(main);
+  } catch (err) {
+    if (isFatal(err)) throw err;
+    const bak = await readText(NOTES_BAK);
+    if (bak !== null) {
+      try {
+        const parsed = await openIndex(bak);
+        log.warn("notesIndex.json unreadable, recovered from backup", err);
+        // Keep the broken file around for inspection before the next save replaces it.
+        await Filesystem.copy({ from: NOTES_INDEX, to: `notesIndex.corrupt-${Date.now()}.json`, directory: Directory.Data }).catch(() => undefined);
+        return parsed;
+      } catch { /* fall through to the original error */ }
+    }
+    throw new NotesStoreError("CORRUPT", "notesIndex.json is unreadable and no usable backup exists", { cause: err });
+  }
+}
+
+/** The index file body; also what exchange bundles carry (without tombstones). */
+export function formatNotesIndex(notes: Note[], taxonomy: Taxonomy, tombstones?: Tombstone[]): string {
+  const body: IndexFile = { version: NOTES_SCHEMA_VERSION, savedAt: new Date().toISOString(), notes, taxonomy, tombstones };
+  return JSON.stringify(body);
+}
+
+async function save(notes: Note[], taxonomy: Taxonomy = taxonomyCache, tombstones: Tombstone[] = tombstoneCache): Promise<void> {
+  // A note that is back (re-imported, restored by sync) is no longer deleted.
+  const live = new Set(notes.map((n) => n.id));
+  const kept = tombstones.filter((t) => !live.has(t.id)).slice(-MAX_TOMBSTONES);
+  // Outside the try: a locked vault is not a write failure.
+  const data = await vault.sealText(formatNotesIndex(notes, taxonomy, kept));
+  try {
+    await Filesystem.writeFile({ path: NOTES_TMP, data, directory: Directory.Data, encoding: Encoding.UTF8, recursive: true });
+    if (await exists(NOTES_INDEX)) {
+      await removeIfExists(NOTES_BAK);
+      await Filesystem.rename({ from: NOTES_INDEX, to: NOTES_BAK, directory: Directory.Data });
+    }
+    await Filesystem.rename({ from: NOTES_TMP, to: NOTES_INDEX, directory: Directory.Data });
+  } catch (err) {
+    throw new NotesStoreError("WRITE_FAILED", "Could not write notesIndex.json", { cause: err });
+  }
+  cache = notes;
+  taxonomyCache = taxonomy;
+  tombstoneCache = kept;
+}
+
+async function current(): Promise<Note[]> {
+  if (!cache) {
+    const { notes: loaded, taxonomy, tombstones, fromVersion } = await load();
+    cache = loaded;
+    taxonomyCache = taxonomy;
+    tombstoneCache = tombstones;
+    // Persist migrations right away so the on-disk file never lags the code that reads it.
+    if (fromVersion < NOTES_SCHEMA_VERSION) await save(loaded);
+    if (Capacitor.getPlatform() === "web" && loaded.some((n) => n.webPath.startsWith("data:"))) {
+      const { notes, moved } = await extractInlineAudio(loaded);
+      if (moved > 0) await save(notes);
+    }
+  }
+  return cache;
+}
+
+// Locking drops the decrypted library; the next read needs the vault open again.
+vault.onLock(() => void serialize(async () => { cache = null; taxonomyCache = EMPTY_TAXONOMY; tombstoneCache = []; }));
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Public API
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function readNotes(): Promise<Note[]> {
+  return serialize(async () => [...(await current())]);
+}
+
+/**
+ * Notes `fn` replaced or added get updatedAt set to now, unless `fn` set one
+ * itself (an import carrying another device's edit time).
+ */
+function stampEdits(before: Note[], after: Note[]): Note[] {
+  const prev = new Map(before.map((n) => [n.id, n]));
+  const now = new Date().toISOString();
+  return after.map((n) => {
+    const old = prev.get(n.id);
+    return n === old || n.updatedAt !== old?.updatedAt ? n : { ...n, updatedAt: now };
+  });
+}
+
+/** Read-modify-write under the store lock, so overlapping saves never drop each other's changes. */
+export function mutateNotes(fn: (notes: Note[]) => Note[]): Promise<Note[]> {
+  return serialize(async () => {
+    const loaded = await current();
+    const next = stampEdits(loaded, fn([...loaded]));
+    await save(next);
+    return [...next];
+  });
+}
+
+export function addNote(note: Note): Promise<Note[]> {
+  return mutateNotes((notes) => [note, ...notes.filter((n) => n.id !== note.id)]);
+}
+
+export function updateNote(note: Note): Promise<Note[]> {
+  return mutateNotes((notes) => notes.map((n) => (n.id === note.id ? note : n)));
+}
+
+/** Applies `patch` to the stored copy of note `id`, so a concurrent edit to another field is not lost. */
+export async function patchNote(id: string, patch: Partial<Note>): Promise<Note | undefined> {
+  const notes = await mutateNotes((all) => all.map((n) => (n.id === id ? { ...n, ...patch } : n)));
+  return notes.find((n) => n.id === id);
+}
+
+// Removes the audio first so a failed delete never leaves an index entry pointing nowhere.
+export async function deleteNote(note: Note): Promise<Note[]> {
+  await deleteAudio(note);
+  await deleteTranscript(note.id);
+  return serialize(async () => {
+    const next = (await current()).filter((n) => n.id !== note.id);
+    await save(next, taxonomyCache, [...tombstoneCache.filter((t) => t.id !== note.id), { id: note.id, deletedAt: new Date().toISOString() }]);
+    return [...next];
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sync
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Notes deleted here that sync has not yet reported to the server. */
+export function readTombstones(): Promise<Tombstone[]> {
+  return serialize(async () => { await current(); return [...tombstoneCache]; });
+}
+
+export function forgetTombstones(ids: string[]): Promise<void> {
+  const gone = new Set(ids);
+  return serialize(async () => {
+    const notes = await current();
+    if (tombstoneCache.some((t) => gone.has(t.id))) await save(notes, taxonomyCache, tombstoneCache.filter((t) => !gone.has(t.id)));
+  });
+}
+
+/**
+ * Writes notes that came from another device. Unlike mutateNotes nothing is
+ * stamped and removals leave no tombstone, so they are not sent back as local
+ * edits. Removed notes' audio is the caller's to delete.
+ */
+export function applyRemoteNotes(upserts: Note[], removed: string[]): Promise<Note[]> {
+  return serialize(async () => {
+    const replaced = new Set([...removed, ...upserts.map((n) => n.id)]);
+    const next = [...upserts, ...(await current()).filter((n) => !replaced.has(n.id))].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    await save(next);
+    return [...next];
+  });
+}
+
+/**
+ * Rewrites the index in the form the vault now writes. Saved twice so the
+ * .bak copy is rewritten too; copies set aside as corrupt are rewritten in place.
+ */
+export function resealIndex(): Promise<void> {
+  return serialize(async () => {
+    const notes = await current();
+    await save(notes);
+    await save(notes);
+    const { files } = await Filesystem.readdir({ path: "", directory: Directory.Data });
+    for (const f of files.filter((f) => f.type === "file" && f.name.startsWith("notesIndex.corrupt-"))) {
+      const text = await readText(f.name);
+      if (text === null) continue;
+      let plain: string;
+      try { plain = await vault.openText(text); } catch { continue; } // sealed and damaged: nothing readable left to protect
+      await Filesystem.writeFile({ path: f.name, data: await vault.sealText(plain), directory: Directory.Data, encoding: Encoding.UTF8 });
+    }
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Categories & tags
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function readTaxonomy(): Promise<Taxonomy> {
+  return serialize(async () => { await current(); return taxonomyCache; });
+}
+
+function dropMissingLabels(n: Note, categories: Set<string>, tags: Set<string>): Note {
+  const staleCategory = n.categoryId !== undefined && !categories.has(n.categoryId);
+  const tagIds = n.tagIds?.filter((id) => tags.has(id));
+  if (!staleCategory && tagIds?.length === n.tagIds?.length) return n;
+  const next: Note = { ...n, tagIds: tagIds && tagIds.length > 0 ? tagIds : undefined };
+  if (staleCategory) delete next.categoryId;
+  return next;
+}
+
+/** Updates categories and tags; notes still pointing at a removed one lose the reference in the same write. */
+export function mutateTaxonomy(fn: (t: Taxonomy) => Taxonomy): Promise<{ taxonomy: Taxonomy; notes: Note[] }> {
+  return serialize(async () => {
+    const loaded = await current();
+    const next = fn(taxonomyCache);
+    const categories = new Set(next.categories.map((c) => c.id));
+    const tags = new Set(next.tags.map((t) => t.id));
+    const notes = loaded.map((n) => dropMissingLabels(n, categories, tags));
+    await save(notes, next);
+    return { taxonomy: next, notes: [...notes] };
+  });
+}
+
+/** Parses an index written by any schema version, migrating it to the current one. */
+export function parseNotesIndex(text: string): { notes: Note[]; taxonomy: Taxonomy } {
+  try {
+    const { notes, taxonomy } = parseIndex(text);
+    return { notes, taxonomy };
+  } catch (err) {
+    if (err instanceof NotesStoreError) throw err;
+    throw new NotesStoreError("CORRUPT", "Not a readable notes index", { cause: err });
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Repair
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type RepairReport = { recovered: Note[]; dropped: Note[]; notes: Note[] };
+
+/**
+ * Reconciles the index with audio storage (`Directory.Data/audio/` on native,
+ * IndexedDB on web): audio with no entry gets a fresh unlocated note, entries
+ * whose audio is gone are dropped. Imported places without audio are left alone.
+ */
+export function repairNotes(): Promise<RepairReport> {
+  return serialize(async () => {
+    const notes = await current();
+    const stored = await listAudio();
+    const present = new Set(stored.map((a) => a.id));
+    const indexed = new Set(notes.map((n) => n.id));
+
+    // Inline data: URLs that have not been moved to IndexedDB yet are their own audio.
+    const dropped = notes.filter((n) => hasAudio(n) && !present.has(n.id) && !n.webPath.startsWith("data:"));
+    const recovered: Note[] = [];
+    for (const a of stored) {
+      if (indexed.has(a.id)) continue;
+      recovered.push({ id: a.id, filePath: a.filePath, webPath: await webPathFor(a.filePath), createdAt: a.createdAt, label: `Recovered ${new Date(a.createdAt).toLocaleString()}`, mimeType: a.mimeType });
+    }
+
+    if (dropped.length === 0 && recovered.length === 0) return { recovered, dropped, notes: [...notes] };
+    const gone = new Set(dropped.map((n) => n.id));
+    const next = [...notes.filter((n) => !gone.has(n.id)), ...recovered].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    await save(next);
+    return { recovered, dropped, notes: [...next] };
+  });
+}
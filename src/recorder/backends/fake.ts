@@ -0,0 +1,41 @@
+import { RecorderError } from "../types";
+import type { RecordedAudio, RecorderBackend, RecorderErrorCode } from "../types";
+
+export type FakeBackendOptions = {
+  available?: boolean;
+  permission?: boolean;
+  /** Make the named step throw with the given code. */
+  failOn?: Partial<Record<"start" | "pause" | "resume" | "stop", RecorderErrorCode>>;
+  /** What stop() returns. Defaults to a tiny base64 payload. */
+  audio?: RecordedAudio;
+};
+
+export type FakeBackend = RecorderBackend & { calls: string[] };
+
+/** In-memory backend for exercising the engine and save pipeline under Node. */
+export function createFakeBackend(options: FakeBackendOptions = {}): FakeBackend {
+  const calls: string[] = [];
+  const step = (name: "start" | "pause" | "resume" | "stop") => {
+    calls.push(name);
+    const code = options.failOn?.[name];
+    if (code) throw new RecorderError(code, `fake ${name} failure`);
+  };
+  return {
+    name: "Fake",
+    supportsPause: true,
+    calls,
+    async assertAvailable() {
+      calls.push("assertAvailable");
+      if (options.available === false) throw new RecorderError("PLUGIN_NOT_LINKED", "fake backend unavailable");
+    },
+    async ensurePermission() { calls.push("ensurePermission"); return options.permission ?? true; },
+    async start() { step("start"); },
+    async pause() { step("pause"); },
+    async resume() { step("resume"); },
+    async stop() {
+      step("stop");
+      return options.audio ?? { kind: "base64", base64: "AAAA", mimeType: "audio/mp4" };
+    },
+    async cancel() { calls.push("cancel"); },
+  };
+}
@@ -0,0 +1,68 @@
+import { RecorderError } from "../types";
+import type { RecordedAudio, RecorderBackend } from "../types";
+
+// Prefer a type the same browser can also play back.
+export const MIME_CANDIDATES = ["audio/mp4;codecs=mp4a.40.2", "audio/webm;codecs=opus", "audio/webm", "audio/ogg;codecs=opus", "audio/ogg"];
+
+function pickMimeType(): string {
+  const probe = document.createElement("audio");
+  for (const t of MIME_CANDIDATES) {
+    try { if (MediaRecorder.isTypeSupported(t) && probe.canPlayType(t)) return t; } catch { /* try the next one */ }
+  }
+  return "";
+}
+
+/** Browser MediaRecorder + getUserMedia. */
+export function createMediaRecorderBackend(): RecorderBackend {
+  let recorder: MediaRecorder | null = null;
+  let stream: MediaStream | null = null;
+  let chunks: Blob[] = [];
+  let mimeType = "";
+
+  const release = () => {
+    stream?.getTracks().forEach((t) => t.stop());
+    recorder = null; stream = null; chunks = [];
+  };
+
+  return {
+    name: "MediaRecorder",
+    supportsPause: true,
+    async assertAvailable() {
+      if (typeof window === "undefined" || !window.MediaRecorder || !navigator.mediaDevices?.getUserMedia) throw new RecorderError("MEDIA_RECORDER_UNSUPPORTED", "MediaRecorder/getUserMedia not available");
+    },
+    async ensurePermission() {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+        return true;
+      } catch (err) {
+        if (err instanceof DOMException && (err.name === "NotAllowedError" || err.name === "SecurityError")) return false;
+        throw err;
+      }
+    },
+    async start() {
+      if (!stream) throw new RecorderError("START_FAILED", "no media stream");
+      const chosen = pickMimeType();
+      mimeType = chosen || "audio/webm";
+      recorder = chosen ? new MediaRecorder(stream, { mimeType: chosen }) : new MediaRecorder(stream);
+      chunks = [];
+      recorder.ondataavailable = (e) => { if (e.data && e.data.size) chunks.push(e.data); };
+      recorder.start();
+    },
+    async pause() { recorder?.pause(); },
+    async resume() { recorder?.resume(); },
+    async stop(): Promise<RecordedAudio> {
+      const mr = recorder;
+      if (!mr) throw new RecorderError("STOP_FAILED", "no active MediaRecorder");
+      const finished = new Promise<Blob>((resolve) => { mr.onstop = () => resolve(new Blob(chunks, { type: mimeType })); });
+      mr.stop();
+      const blob = await finished;
+      release();
+      return { kind: "blob", blob, mimeType: blob.type || mimeType };
+    },
+    async cancel() {
+      try { if (recorder && recorder.state !== "inactive") recorder.stop(); } catch { /* already stopped */ }
+      release();
+    },
+    inputStream: () => stream,
+  };
+}
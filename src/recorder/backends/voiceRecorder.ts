@@ -0,0 +1,33 @@
+import { Capacitor } from "@capacitor/core";
+import { VoiceRecorder } from "capacitor-voice-recorder";
+import { RecorderError } from "../types";
+import type { RecordedAudio, RecorderBackend } from "../types";
+
+/** capacitor-voice-recorder, shared by iOS and Android. */
+export function createVoiceRecorderBackend(): RecorderBackend {
+  return {
+    name: `VoiceRecorder(${Capacitor.getPlatform()})`,
+    supportsPause: true,
+    async assertAvailable() {
+      const available = Capacitor.isPluginAvailable("VoiceRecorder");
+      if (!available || typeof VoiceRecorder?.startRecording !== "function") throw new RecorderError("PLUGIN_NOT_LINKED", "VoiceRecorder plugin is not linked into this build");
+    },
+    async ensurePermission() {
+      const has = await VoiceRecorder.hasAudioRecordingPermission();
+      if (has.value) return true;
+      const asked = await VoiceRecorder.requestAudioRecordingPermission();
+      return asked.value;
+    },
+    async start() { await VoiceRecorder.startRecording(); },
+    async pause() { await VoiceRecorder.pauseRecording(); },
+    async resume() { await VoiceRecorder.resumeRecording(); },
+    async stop(): Promise<RecordedAudio> {
+      const { value } = await VoiceRecorder.stopRecording();
+      if (!value?.recordDataBase64) throw new RecorderError("NO_AUDIO_DATA", "stopRecording returned no audio data");
+      return { kind: "base64", base64: value.recordDataBase64, mimeType: value.mimeType || "audio/m4a", durationMs: value.msDuration };
+    },
+    async cancel() {
+      try { await VoiceRecorder.stopRecording(); } catch { /* nothing was recording */ }
+    },
+  };
+}
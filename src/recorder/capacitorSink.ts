@@ -0,0 +1,10 @@
+import { v4 as uuidv4 } from "uuid";
+import { addNote } from "../notesStore";
+import { writeAudio } from "../audioStorage";
+import type { NoteSink } from "./save";
+
+export const capacitorSink: NoteSink = {
+  newId: () => uuidv4(),
+  writeAudio,
+  addNote,
+};
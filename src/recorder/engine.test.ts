@@ -0,0 +1,141 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RecorderEngine } from "./engine";
+import { createFakeBackend } from "./backends/fake";
+import type { FakeBackend, FakeBackendOptions } from "./backends/fake";
+import type { RecordedAudio, RecorderState, RecordingInfo } from "./types";
+
+function setup(options: FakeBackendOptions = {}) {
+  const backend = createFakeBackend(options);
+  const saved: RecordingInfo[] = [];
+  const states: RecorderState[] = [];
+  let clock = 1_000;
+  const engine = new RecorderEngine({
+    backend,
+    finalize: async (_audio: RecordedAudio, info: RecordingInfo) => { saved.push(info); return `note-${saved.length}`; },
+    onTransition: (_from, next) => states.push(next.state),
+    now: () => clock,
+  });
+  return { backend, engine, saved, states, advance: (ms: number) => { clock += ms; } };
+}
+
+/** A backend whose permission prompt stays open until answered. */
+function withPendingPermission(backend: FakeBackend): { backend: FakeBackend; answer: (granted: boolean) => void } {
+  let answer: (granted: boolean) => void = () => undefined;
+  const asked = new Promise<boolean>((resolve) => { answer = resolve; });
+  return { backend: { ...backend, ensurePermission: () => { backend.calls.push("ensurePermission"); return asked; } }, answer };
+}
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+test("records, pauses and saves with pauses left out of the elapsed time", async () => {
+  const { backend, engine, saved, states, advance } = setup();
+  await engine.start();
+  advance(2_000);
+  await engine.pause();
+  advance(5_000);
+  await engine.resume();
+  advance(1_000);
+  assert.equal(await engine.stop(), "note-1");
+  assert.deepEqual(states, ["requesting-permission", "recording", "paused", "recording", "finalizing", "idle"]);
+  assert.equal(saved[0].elapsedMs, 3_000);
+  assert.equal(saved[0].autoStopped, false);
+  assert.deepEqual(backend.calls, ["assertAvailable", "ensurePermission", "start", "pause", "resume", "stop"]);
+});
+
+test("a denied permission fails the take and releases the backend", async () => {
+  const { backend, engine } = setup({ permission: false });
+  await engine.start();
+  assert.equal(engine.getSnapshot().state, "failed");
+  assert.equal(engine.getSnapshot().error?.code, "PERMISSION_DENIED");
+  await settle();
+  assert.ok(backend.calls.includes("cancel"));
+});
+
+test("start and stop failures release the backend", async () => {
+  const starting = setup({ failOn: { start: "START_FAILED" } });
+  await starting.engine.start();
+  assert.equal(starting.engine.getSnapshot().error?.code, "START_FAILED");
+  await settle();
+  assert.ok(starting.backend.calls.includes("cancel"));
+
+  const stopping = setup({ failOn: { stop: "STOP_FAILED" } });
+  await stopping.engine.start();
+  assert.equal(await stopping.engine.stop(), null);
+  assert.equal(stopping.engine.getSnapshot().error?.code, "STOP_FAILED");
+  await settle();
+  assert.ok(stopping.backend.calls.includes("cancel"));
+});
+
+test("empty audio fails with NO_AUDIO_DATA and nothing is saved", async () => {
+  const { engine, saved } = setup({ audio: { kind: "base64", base64: "", mimeType: "audio/mp4" } });
+  await engine.start();
+  assert.equal(await engine.stop(), null);
+  assert.equal(engine.getSnapshot().error?.code, "NO_AUDIO_DATA");
+  assert.equal(saved.length, 0);
+});
+
+test("a failed take can be started again", async () => {
+  const { engine } = setup({ permission: false });
+  await engine.start();
+  assert.equal(engine.getSnapshot().state, "failed");
+  await engine.start();
+  assert.equal(engine.getSnapshot().state, "failed");
+  await engine.cancel();
+  assert.equal(engine.getSnapshot().state, "idle");
+});
+
+test("cancel while the permission prompt is open drops the take", async () => {
+  const { backend, answer } = withPendingPermission(createFakeBackend());
+  const states: RecorderState[] = [];
+  const engine = new RecorderEngine({ backend, finalize: async () => "note", onTransition: (_from, next) => states.push(next.state) });
+
+  const starting = engine.start();
+  await settle();
+  await engine.cancel();
+  answer(true);
+  await starting;
+  await settle();
+
+  assert.equal(engine.getSnapshot().state, "idle");
+  assert.deepEqual(states, ["requesting-permission", "idle"]);
+  assert.ok(!backend.calls.includes("start"));
+});
+
+test("cancel while the backend is starting stops the capture it started", async () => {
+  const fake = createFakeBackend();
+  let started: () => void = () => undefined;
+  const backend: FakeBackend = { ...fake, start: () => { fake.calls.push("start"); return new Promise<void>((resolve) => { started = resolve; }); } };
+  const engine = new RecorderEngine({ backend, finalize: async () => "note" });
+
+  const starting = engine.start();
+  await settle();
+  assert.deepEqual(fake.calls, ["assertAvailable", "ensurePermission", "start"]);
+  await engine.cancel();
+  started();
+  await starting;
+  await settle();
+
+  assert.equal(engine.getSnapshot().state, "idle");
+  assert.deepEqual(fake.calls, ["assertAvailable", "ensurePermission", "start", "cancel", "cancel"]);
+});
+
+test("operations out of turn throw INVALID_STATE", async () => {
+  const { engine } = setup();
+  await assert.rejects(engine.stop(), { code: "INVALID_STATE" });
+  await engine.start();
+  await assert.rejects(engine.start(), { code: "INVALID_STATE" });
+  await assert.rejects(engine.resume(), { code: "INVALID_STATE" });
+});
+
+test("auto-stops and saves once the maximum duration is reached", async () => {
+  const backend = createFakeBackend();
+  let onFinalized: (info: RecordingInfo) => void = () => undefined;
+  const finalized = new Promise<RecordingInfo>((resolve) => { onFinalized = resolve; });
+  const engine = new RecorderEngine({ backend, finalize: async () => "note", onFinalized: (_note, info) => onFinalized(info), maxDurationMs: 20 });
+  await engine.start();
+  const info = await finalized;
+  assert.equal(info.autoStopped, true);
+  assert.equal(engine.getSnapshot().state, "idle");
+  assert.ok(backend.calls.includes("stop"));
+});
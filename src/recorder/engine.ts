@@ -0,0 +1,223 @@
+import { RecorderError, toRecorderError } from "./types";
+import type { RecordedAudio, RecorderBackend, RecorderSnapshot, RecorderState, RecordingInfo } from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Recorder engine
+//
+// Owns the state machine and timing; delegates capture to a RecorderBackend and
+// persistence to `finalize`. Nothing in here touches Capacitor or the DOM, so the
+// whole start → stop → save flow runs under Node with the fake backend.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const TRANSITIONS: Record<RecorderState, RecorderState[]> = {
+  idle: ["requesting-permission"],
+  "requesting-permission": ["recording", "failed", "idle"],
+  recording: ["paused", "finalizing", "failed", "idle"],
+  paused: ["recording", "finalizing", "failed", "idle"],
+  finalizing: ["idle", "failed"],
+  failed: ["requesting-permission", "idle"],
+};
+
+export type RecorderEngineOptions<T> = {
+  backend: RecorderBackend;
+  /** Turns captured audio into a saved result (normally a Note). Errors become SAVE_FAILED. */
+  finalize: (audio: RecordedAudio, info: RecordingInfo) => Promise<T>;
+  /** Called after every successful finalize, including auto-stops the UI did not initiate. */
+  onFinalized?: (result: T, info: RecordingInfo) => void;
+  /** Called on every state change with the state left behind; for diagnostics. */
+  onTransition?: (from: RecorderState, next: RecorderSnapshot) => void;
+  /** Auto-stop after this much recorded time (pauses excluded). null/0 disables. */
+  maxDurationMs?: number | null;
+  now?: () => number;
+};
+
+export class RecorderEngine<T> {
+  private readonly backend: RecorderBackend;
+  private readonly finalize: RecorderEngineOptions<T>["finalize"];
+  private readonly onFinalized?: RecorderEngineOptions<T>["onFinalized"];
+  private readonly onTransition?: RecorderEngineOptions<T>["onTransition"];
+  private readonly now: () => number;
+  private maxDurationMs: number | null;
+
+  private snapshot: RecorderSnapshot = { state: "idle", elapsedMs: 0, error: null, autoStopped: false };
+  private listeners = new Set<(s: RecorderSnapshot) => void>();
+  private startedAt = 0;
+  private activeSince: number | null = null;
+  private accumulatedMs = 0;
+  private autoStopTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Bumped by start() and cancel(), so a start() still waiting on the backend can tell it was called off. */
+  private take = 0;
+
+  constructor(options: RecorderEngineOptions<T>) {
+    this.backend = options.backend;
+    this.finalize = options.finalize;
+    this.onFinalized = options.onFinalized;
+    this.onTransition = options.onTransition;
+    this.now = options.now ?? Date.now;
+    this.maxDurationMs = options.maxDurationMs || null;
+  }
+
+  get backendName(): string { return this.backend.name; }
+  get supportsPause(): boolean { return this.backend.supportsPause; }
+  /** The backend's live input, when it has one in the WebView. */
+  inputStream(): MediaStream | null { return this.backend.inputStream?.() ?? null; }
+
+  getSnapshot = (): RecorderSnapshot => this.snapshot;
+
+  subscribe = (listener: (s: RecorderSnapshot) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  /** Live recorded time; the snapshot value only moves on state changes. */
+  elapsedMs(): number {
+    return this.accumulatedMs + (this.activeSince !== null ? this.now() - this.activeSince : 0);
+  }
+
+  setMaxDuration(ms: number | null): void {
+    this.maxDurationMs = ms || null;
+    if (this.snapshot.state === "recording") this.armAutoStop();
+  }
+
+  async start(): Promise<void> {
+    this.assertState("idle", "failed");
+    const take = ++this.take;
+    this.accumulatedMs = 0; this.activeSince = null;
+    this.set({ state: "requesting-permission", elapsedMs: 0, error: null, autoStopped: false });
+    try {
+      await this.backend.assertAvailable();
+      if (this.abandoned(take)) return;
+      const granted = await this.backend.ensurePermission();
+      if (this.abandoned(take)) return;
+      if (!granted) throw new RecorderError("PERMISSION_DENIED", `${this.backend.name}: microphone permission denied`);
+    } catch (err) {
+      if (this.abandoned(take)) return;
+      return this.fail(toRecorderError(err, "PERMISSION_DENIED"));
+    }
+    try {
+      await this.backend.start();
+    } catch (err) {
+      if (this.abandoned(take)) return;
+      return this.fail(toRecorderError(err, "START_FAILED"));
+    }
+    if (this.abandoned(take)) return;
+    this.startedAt = this.now(); this.activeSince = this.startedAt;
+    this.armAutoStop();
+    this.set({ state: "recording" });
+  }
+
+  async pause(): Promise<void> {
+    this.assertState("recording");
+    if (!this.backend.supportsPause) throw new RecorderError("PAUSE_UNSUPPORTED", `${this.backend.name} cannot pause`);
+    try {
+      await this.backend.pause();
+    } catch (err) {
+      return this.fail(toRecorderError(err, "PAUSE_UNSUPPORTED"));
+    }
+    this.freezeClock();
+    this.set({ state: "paused", elapsedMs: this.accumulatedMs });
+  }
+
+  async resume(): Promise<void> {
+    this.assertState("paused");
+    try {
+      await this.backend.resume();
+    } catch (err) {
+      return this.fail(toRecorderError(err, "PAUSE_UNSUPPORTED"));
+    }
+    this.activeSince = this.now();
+    this.armAutoStop();
+    this.set({ state: "recording" });
+  }
+
+  /** Stops, saves through `finalize` and returns its result, or null if anything failed (see snapshot.error). */
+  async stop(): Promise<T | null> {
+    this.assertState("recording", "paused");
+    return this.finish(false);
+  }
+
+  /** Abandons the current take without saving. */
+  async cancel(): Promise<void> {
+    if (this.snapshot.state === "idle" || this.snapshot.state === "finalizing") return;
+    this.take++;
+    this.clearAutoStop(); this.freezeClock();
+    await this.backend.cancel();
+    this.set({ state: "idle", elapsedMs: 0, error: null });
+  }
+
+  private async finish(autoStopped: boolean): Promise<T | null> {
+    this.clearAutoStop(); this.freezeClock();
+    const info: RecordingInfo = { startedAt: new Date(this.startedAt), elapsedMs: this.accumulatedMs, autoStopped };
+    this.set({ state: "finalizing", elapsedMs: info.elapsedMs, autoStopped });
+
+    let audio: RecordedAudio;
+    try {
+      audio = await this.backend.stop();
+    } catch (err) {
+      this.fail(toRecorderError(err, "STOP_FAILED"));
+      return null;
+    }
+    const empty = audio.kind === "base64" ? !audio.base64 : audio.blob.size === 0;
+    if (empty) { this.fail(new RecorderError("NO_AUDIO_DATA", `${this.backend.name} returned no audio`)); return null; }
+
+    let result: T;
+    try {
+      result = await this.finalize(audio, info);
+    } catch (err) {
+      this.fail(toRecorderError(err, "SAVE_FAILED"));
+      return null;
+    }
+    this.set({ state: "idle" });
+    this.onFinalized?.(result, info);
+    return result;
+  }
+
+  private armAutoStop(): void {
+    this.clearAutoStop();
+    if (!this.maxDurationMs) return;
+    const remaining = Math.max(0, this.maxDurationMs - this.elapsedMs());
+    this.autoStopTimer = setTimeout(() => {
+      this.autoStopTimer = null;
+      if (this.snapshot.state === "recording") void this.finish(true);
+    }, remaining);
+  }
+
+  private clearAutoStop(): void {
+    if (this.autoStopTimer !== null) clearTimeout(this.autoStopTimer);
+    this.autoStopTimer = null;
+  }
+
+  /** True when cancel() came in while start() was awaiting; releases whatever the backend got as far as. */
+  private abandoned(take: number): boolean {
+    if (take === this.take) return false;
+    void this.backend.cancel().catch(() => undefined);
+    return true;
+  }
+
+  private freezeClock(): void {
+    if (this.activeSince !== null) this.accumulatedMs += this.now() - this.activeSince;
+    this.activeSince = null;
+  }
+
+  /** Also releases the backend, so a failed start or stop does not leave the microphone open. */
+  private fail(error: RecorderError): void {
+    this.clearAutoStop(); this.freezeClock();
+    void this.backend.cancel().catch(() => undefined);
+    this.set({ state: "failed", error });
+  }
+
+  private assertState(...allowed: RecorderState[]): void {
+    if (!allowed.includes(this.snapshot.state)) throw new RecorderError("INVALID_STATE", `cannot do that while ${this.snapshot.state}`);
+  }
+
+  private set(patch: Partial<RecorderSnapshot>): void {
+    const next = { ...this.snapshot, ...patch };
+    if (next.state !== this.snapshot.state && !TRANSITIONS[this.snapshot.state].includes(next.state)) {
+      throw new RecorderError("INVALID_STATE", `illegal transition ${this.snapshot.state} → ${next.state}`);
+    }
+    const from = this.snapshot.state;
+    this.snapshot = next;
+    if (next.state !== from) this.onTransition?.(from, next);
+    this.listeners.forEach((l) => l(next));
+  }
+}
@@ -0,0 +1,16 @@
+import { Capacitor } from "@capacitor/core";
+import { createMediaRecorderBackend } from "./backends/mediaRecorder";
+import { createVoiceRecorderBackend } from "./backends/voiceRecorder";
+import type { RecorderBackend } from "./types";
+
+export { RecorderEngine } from "./engine";
+export { saveRecording } from "./save";
+export { capacitorSink } from "./capacitorSink";
+export { LevelMeter } from "./meter";
+export { RecorderError } from "./types";
+export type { RecorderBackend, RecorderErrorCode, RecorderSnapshot, RecorderState, RecordedAudio, RecordingInfo } from "./types";
+
+/** MediaRecorder in the browser, the native plugin everywhere else. */
+export function createPlatformBackend(): RecorderBackend {
+  return Capacitor.getPlatform() === "web" ? createMediaRecorderBackend() : createVoiceRecorderBackend();
+}
@@ -0,0 +1,52 @@
+import { meterLevel } from "../audioEdit/pcm";
+import { logger } from "../diagnostics/log";
+
+const log = logger("recorder");
+
+/**
+ * Live input level while recording. Taps the backend's own stream when it has
+ * one (MediaRecorder); otherwise opens a monitoring stream of its own, which
+ * WKWebView allows next to the native recorder on iOS 14.3+. Where neither
+ * works, read() stays null and the UI says so rather than showing a flat line.
+ */
+export class LevelMeter {
+  private ctx: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private buffer: Float32Array<ArrayBuffer> | null = null;
+  private ownStream: MediaStream | null = null;
+
+  /** Resolves to whether levels will be available. */
+  async start(stream: MediaStream | null): Promise<boolean> {
+    this.stop();
+    try {
+      let source = stream;
+      if (!source) {
+        if (!navigator.mediaDevices?.getUserMedia) return false;
+        source = this.ownStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      }
+      this.ctx = new AudioContext();
+      this.analyser = this.ctx.createAnalyser();
+      this.analyser.fftSize = 1024;
+      this.ctx.createMediaStreamSource(source).connect(this.analyser);
+      this.buffer = new Float32Array(this.analyser.fftSize);
+      return true;
+    } catch (err) {
+      log.warn("level meter unavailable", err);
+      this.stop();
+      return false;
+    }
+  }
+
+  /** 0 (silence, -60 dBFS or below) to 1 (full scale); null when not running. */
+  read(): number | null {
+    if (!this.analyser || !this.buffer) return null;
+    this.analyser.getFloatTimeDomainData(this.buffer);
+    return meterLevel(this.buffer);
+  }
+
+  stop(): void {
+    this.ownStream?.getTracks().forEach((t) => t.stop());
+    void this.ctx?.close().catch(() => undefined);
+    this.ctx = null; this.analyser = null; this.buffer = null; this.ownStream = null;
+  }
+}
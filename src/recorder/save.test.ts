@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RecorderEngine } from "./engine";
+import { createFakeBackend } from "./backends/fake";
+import type { FakeBackendOptions } from "./backends/fake";
+import { saveRecording } from "./save";
+import type { NoteSink, SaveContext } from "./save";
+import type { RecordedAudio } from "./types";
+import type { Note, NoteLocation } from "../types";
+
+/** The fake backend recording into an in-memory sink, as the app wires it to the Capacitor one. */
+function setup(ctx: SaveContext, options: FakeBackendOptions = {}) {
+  const files = new Map<string, { id: string; audio: RecordedAudio }>();
+  const notes: Note[] = [];
+  const sink: NoteSink = {
+    newId: () => `memo-${notes.length + 1}`,
+    writeAudio: async (id, path, audio) => { files.set(path, { id, audio }); return `mem://${path}`; },
+    addNote: async (note) => { notes.push(note); },
+  };
+  let clock = Date.parse("2025-04-01T08:30:00.000Z");
+  const engine = new RecorderEngine({
+    backend: createFakeBackend(options),
+    finalize: (audio, info) => saveRecording(audio, info, ctx, sink),
+    now: () => clock,
+  });
+  return { engine, files, notes, advance: (ms: number) => { clock += ms; } };
+}
+
+const fix: NoteLocation = { lat: 52.52, lon: 13.405, accuracyM: 8, fixAt: "2025-04-01T08:29:58.000Z", fixAgeMs: 2_000, source: "recording" };
+
+test("a finished take is saved as a note with its audio", async () => {
+  const { engine, files, notes, advance } = setup({ location: fix, label: "  Canal bridge  " });
+  await engine.start();
+  advance(4_200);
+  const note = await engine.stop();
+
+  assert.deepEqual(notes, [note]);
+  assert.deepEqual(note, {
+    id: "memo-1",
+    filePath: "audio/memo-1.m4a",
+    webPath: "mem://audio/memo-1.m4a",
+    createdAt: "2025-04-01T08:30:00.000Z",
+    location: fix,
+    label: "Canal bridge",
+    durationMs: 4_200,
+    mimeType: "audio/mp4",
+  });
+  assert.deepEqual(files.get("audio/memo-1.m4a"), { id: "memo-1", audio: { kind: "base64", base64: "AAAA", mimeType: "audio/mp4" } });
+});
+
+test("the backend's duration and type win, and an empty track is left out", async () => {
+  const blob = new Blob(["webm bytes"], { type: "audio/webm" });
+  const { engine, files, advance } = setup({ location: null, track: [] }, { audio: { kind: "blob", blob, mimeType: "audio/webm;codecs=opus", durationMs: 3_950 } });
+  await engine.start();
+  advance(4_000);
+  const note = await engine.stop();
+
+  assert.equal(note?.filePath, "audio/memo-1.webm");
+  assert.equal(note?.mimeType, "audio/webm;codecs=opus");
+  assert.equal(note?.durationMs, 3_950);
+  assert.ok(note && !("location" in note) && !("track" in note));
+  assert.ok(note?.label);
+  const stored = files.get("audio/memo-1.webm")?.audio;
+  assert.equal(stored?.kind === "blob" ? await stored.blob.text() : null, "webm bytes");
+});
@@ -0,0 +1,43 @@
+import type { Note, NoteLocation, TrackPoint } from "../types";
+import { mimeToExt } from "../audioFormat";
+import type { RecordedAudio, RecordingInfo } from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Save pipeline: captured audio → audio/<id>.<ext> → Note → index
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Where a finished recording goes. The app uses the Capacitor sink; tests can pass an in-memory one. */
+export interface NoteSink {
+  newId(): string;
+  /** Stores the audio for note `id` under `path` and returns the Note.webPath to record. */
+  writeAudio(id: string, path: string, audio: RecordedAudio): Promise<string>;
+  addNote(note: Note): Promise<unknown>;
+}
+
+export type SaveContext = {
+  location: NoteLocation | null;
+  track?: TrackPoint[];
+  /** Defaults to the recording start time, formatted for the current locale. */
+  label?: string;
+};
+
+export async function saveRecording(audio: RecordedAudio, info: RecordingInfo, ctx: SaveContext, sink: NoteSink): Promise<Note> {
+  const id = sink.newId();
+  const mimeType = audio.mimeType;
+  const filePath = `audio/${id}.${mimeToExt(mimeType)}`;
+  const webPath = await sink.writeAudio(id, filePath, audio);
+  const note: Note = {
+    id,
+    filePath,
+    webPath,
+    createdAt: info.startedAt.toISOString(),
+    ...(ctx.location ? { location: ctx.location } : {}),
+    ...(ctx.track && ctx.track.length > 0 ? { track: ctx.track } : {}),
+    label: ctx.label?.trim() || info.startedAt.toLocaleString(),
+    // Trust the backend's own measurement when it has one; our clock only sees UI-side timing.
+    durationMs: audio.durationMs || info.elapsedMs,
+    mimeType,
+  };
+  await sink.addNote(note);
+  return note;
+}
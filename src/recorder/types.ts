@@ -0,0 +1,72 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Recorder contracts
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type RecorderState = "idle" | "requesting-permission" | "recording" | "paused" | "finalizing" | "failed";
+
+export type RecorderErrorCode =
+  | "PLUGIN_NOT_LINKED"
+  | "MEDIA_RECORDER_UNSUPPORTED"
+  | "PERMISSION_DENIED"
+  | "START_FAILED"
+  | "PAUSE_UNSUPPORTED"
+  | "STOP_FAILED"
+  | "NO_AUDIO_DATA"
+  | "SAVE_FAILED"
+  | "INVALID_STATE";
+
+export class RecorderError extends Error {
+  readonly code: RecorderErrorCode;
+  constructor(code: RecorderErrorCode, message?: string, options?: { cause?: unknown }) {
+    super(message ?? code, options);
+    this.name = "RecorderError";
+    this.code = code;
+  }
+}
+
+export function toRecorderError(err: unknown, fallback: RecorderErrorCode): RecorderError {
+  if (err instanceof RecorderError) return err;
+  const message = err instanceof Error ? err.message : typeof err === "string" ? err : undefined;
+  return new RecorderError(fallback, message, { cause: err });
+}
+
+/** Raw audio handed back by a backend: native plugins give base64, MediaRecorder gives a Blob. */
+export type RecordedAudio =
+  | { kind: "base64"; base64: string; mimeType: string; durationMs?: number }
+  | { kind: "blob"; blob: Blob; mimeType: string; durationMs?: number };
+
+/**
+ * One way of capturing audio on a platform. Backends only capture; building the
+ * note, writing the file and updating the index happen once, in the engine's save step.
+ */
+export interface RecorderBackend {
+  readonly name: string;
+  readonly supportsPause: boolean;
+  /** Throws a RecorderError when the backend cannot run here at all (plugin not linked, no MediaRecorder). */
+  assertAvailable(): Promise<void>;
+  /** Resolves true when the microphone may be used, asking the user if needed. */
+  ensurePermission(): Promise<boolean>;
+  start(): Promise<void>;
+  pause(): Promise<void>;
+  resume(): Promise<void>;
+  stop(): Promise<RecordedAudio>;
+  /** Stops capture and throws the audio away. Must not throw. */
+  cancel(): Promise<void>;
+  /** The live input while recording, for backends that capture in the WebView (used for level metering). */
+  inputStream?(): MediaStream | null;
+}
+
+export type RecorderSnapshot = {
+  state: RecorderState;
+  /** Recorded time so far, excluding paused spans. */
+  elapsedMs: number;
+  error: RecorderError | null;
+  /** True when the last recording was ended by the max-duration timer rather than the user. */
+  autoStopped: boolean;
+};
+
+export type RecordingInfo = {
+  startedAt: Date;
+  elapsedMs: number;
+  autoStopped: boolean;
+};
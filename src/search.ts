@@ -0,0 +1,87 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Full-text search over memo labels and transcripts
+//
+// A small in-memory inverted index. Matching is accent- and case-insensitive,
+// every query word has to match, and words match by prefix so results update
+// while typing.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type SearchHit = { id: string; score: number; snippet: string };
+
+const SNIPPET_WORDS = 12;
+
+/** Lowercases and strips accents: "Café" → "cafe". */
+export function foldText(text: string): string {
+  return text.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return foldText(text).split(/[^\p{L}\p{N}]+/u).filter((t) => t.length > 0);
+}
+
+export class SearchIndex {
+  // term → (doc id → occurrences)
+  private postings = new Map<string, Map<string, number>>();
+  private docs = new Map<string, { text: string; terms: Set<string> }>();
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  /** Indexes (or re-indexes) one document. Empty text removes it. */
+  set(id: string, text: string): void {
+    this.remove(id);
+    const terms = tokenize(text);
+    if (terms.length === 0) return;
+    for (const term of terms) {
+      let ids = this.postings.get(term);
+      if (!ids) { ids = new Map(); this.postings.set(term, ids); }
+      ids.set(id, (ids.get(id) ?? 0) + 1);
+    }
+    this.docs.set(id, { text, terms: new Set(terms) });
+  }
+
+  remove(id: string): void {
+    const doc = this.docs.get(id);
+    if (!doc) return;
+    for (const term of doc.terms) {
+      const ids = this.postings.get(term);
+      ids?.delete(id);
+      if (ids && ids.size === 0) this.postings.delete(term);
+    }
+    this.docs.delete(id);
+  }
+
+  search(query: string, limit = 200): SearchHit[] {
+    const words = tokenize(query);
+    if (words.length === 0) return [];
+    let scores: Map<string, number> | null = null;
+    for (const word of words) {
+      const matched = new Map<string, number>();
+      for (const [term, ids] of this.postings) {
+        if (!term.startsWith(word)) continue;
+        // Whole-word matches outrank prefix matches.
+        const weight = term === word ? 2 : 1;
+        for (const [id, count] of ids) matched.set(id, (matched.get(id) ?? 0) + count * weight);
+      }
+      if (scores === null) { scores = matched; continue; }
+      const prev: Map<string, number> = scores;
+      scores = new Map([...matched].filter(([id]) => prev.has(id)).map(([id, s]) => [id, s + (prev.get(id) ?? 0)]));
+      if (scores.size === 0) return [];
+    }
+    return [...(scores ?? [])]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([id, score]) => ({ id, score, snippet: this.snippet(id, words) }));
+  }
+
+  /** A few words of context around the first hit, with ellipses where text was cut. */
+  private snippet(id: string, words: string[]): string {
+    const text = this.docs.get(id)?.text ?? "";
+    const parts = text.split(/\s+/).filter(Boolean);
+    const at = Math.max(0, parts.findIndex((p) => tokenize(p).some((t) => words.some((w) => t.startsWith(w)))));
+    const from = Math.max(0, at - Math.floor(SNIPPET_WORDS / 3));
+    const to = Math.min(parts.length, from + SNIPPET_WORDS);
+    return `${from > 0 ? "… " : ""}${parts.slice(from, to).join(" ")}${to < parts.length ? " …" : ""}`;
+  }
+}
@@ -0,0 +1,96 @@
+import { SYNC_API } from "./protocol";
+import type { ChangesResponse, ConflictBody, PutNoteBody, PutTaxonomyBody, RemoteNote, RemoteTaxonomy } from "./protocol";
+
+export type SyncErrorCode =
+  | "NETWORK"       // server unreachable; the device is probably offline
+  | "UNAUTHORIZED"  // wrong or missing token
+  | "SERVER"        // 5xx, may clear up
+  | "REJECTED"      // 4xx other than auth/conflict; retrying the same request will not help
+  | "BAD_RESPONSE"; // not a sync server, or an incompatible one
+
+export class SyncError extends Error {
+  readonly code: SyncErrorCode;
+  readonly retryable: boolean;
+  /** The server's own explanation, for the settings screen. Kept out of the message, which gets logged. */
+  readonly detail?: string;
+  constructor(code: SyncErrorCode, message: string, retryable: boolean, options?: { cause?: unknown; detail?: string }) {
+    super(message, options);
+    this.name = "SyncError";
+    this.code = code;
+    this.retryable = retryable;
+    this.detail = options?.detail;
+  }
+}
+
+export type SyncClientConfig = {
+  /** Where the server listens, e.g. http://192.168.1.10:8787 */
+  baseUrl: string;
+  token?: string;
+};
+
+/** A write either lands or loses to a newer revision, which comes back for the caller to resolve. */
+export type PutResult<T> = { ok: true; value: T } | { ok: false; current: T };
+
+export type SyncClient = {
+  changes(since: number): Promise<ChangesResponse>;
+  note(id: string): Promise<RemoteNote | null>;
+  putNote(id: string, body: PutNoteBody): Promise<PutResult<RemoteNote>>;
+  putTaxonomy(body: PutTaxonomyBody): Promise<PutResult<RemoteTaxonomy>>;
+  hasAudio(key: string): Promise<boolean>;
+  putAudio(key: string, blob: Blob, mimeType: string): Promise<void>;
+  getAudio(key: string, mimeType: string): Promise<Blob>;
+};
+
+const PAGE_SIZE = 200;
+
+export function createSyncClient(config: SyncClientConfig): SyncClient {
+  const root = `${new URL(config.baseUrl).href.replace(/\/+$/, "")}/${SYNC_API}`;
+  const auth: Record<string, string> = config.token ? { Authorization: `Bearer ${config.token}` } : {};
+
+  async function request(method: string, path: string, init: { body?: BodyInit; type?: string; allow?: number[] } = {}): Promise<Response> {
+    let res: Response;
+    try {
+      res = await fetch(`${root}${path}`, { method, body: init.body, headers: { ...auth, ...(init.type ? { "Content-Type": init.type } : {}) } });
+    } catch (err) {
+      throw new SyncError("NETWORK", err instanceof Error ? err.message : String(err), true, { cause: err });
+    }
+    if (res.ok || init.allow?.includes(res.status)) return res;
+    if (res.status === 401 || res.status === 403) throw new SyncError("UNAUTHORIZED", `Server refused the token (HTTP ${res.status})`, false);
+    if (res.status >= 500) throw new SyncError("SERVER", `HTTP ${res.status}`, true);
+    throw new SyncError("REJECTED", `HTTP ${res.status}`, false, { detail: (await res.text().catch(() => "")).slice(0, 200) || undefined });
+  }
+
+  async function json<T>(res: Response): Promise<T> {
+    try { return (await res.json()) as T; } catch (err) { throw new SyncError("BAD_RESPONSE", "Response is not JSON", false, { cause: err }); }
+  }
+
+  async function put<T>(path: string, body: unknown): Promise<PutResult<T>> {
+    const res = await request("PUT", path, { body: JSON.stringify(body), type: "application/json", allow: [409] });
+    if (res.status === 409) return { ok: false, current: (await json<ConflictBody<T>>(res)).current };
+    return { ok: true, value: await json<T>(res) };
+  }
+
+  return {
+    async changes(since) {
+      const body = await json<ChangesResponse>(await request("GET", `/changes?since=${since}&limit=${PAGE_SIZE}`));
+      if (typeof body.serverId !== "string" || typeof body.cursor !== "number" || !Array.isArray(body.changes)) throw new SyncError("BAD_RESPONSE", "Not a geo-voice sync server", false);
+      return body;
+    },
+    async note(id) {
+      const res = await request("GET", `/notes/${encodeURIComponent(id)}`, { allow: [404] });
+      return res.status === 404 ? null : json<RemoteNote>(res);
+    },
+    putNote: (id, body) => put<RemoteNote>(`/notes/${encodeURIComponent(id)}`, body),
+    putTaxonomy: (body) => put<RemoteTaxonomy>("/taxonomy", body),
+    async hasAudio(key) {
+      return (await request("HEAD", `/audio/${key}`, { allow: [404] })).status !== 404;
+    },
+    async putAudio(key, blob, mimeType) {
+      await request("PUT", `/audio/${key}`, { body: blob, type: mimeType || "application/octet-stream" });
+    },
+    async getAudio(key, mimeType) {
+      const res = await request("GET", `/audio/${key}`);
+      return new Blob([await res.arrayBuffer()], { type: mimeType });
+    },
+  };
+}
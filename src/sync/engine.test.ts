@@ -0,0 +1,158 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import type { ChildProcess } from "node:child_process";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SyncEngine } from "./engine";
+import type { LocalLibrary, SyncState } from "./engine";
+import { createSyncClient } from "./client";
+import type { SyncClient } from "./client";
+import type { Note, Taxonomy, Tombstone } from "../types";
+import type { ScopedLog } from "../diagnostics/log";
+
+// Two devices syncing through the reference server (server/syncServer.mjs),
+// started on a free port with its data in a temp directory.
+
+let server: ChildProcess;
+let dataDir: string;
+let baseUrl: string;
+
+before(async () => {
+  dataDir = await mkdtemp(join(tmpdir(), "gv-sync-"));
+  server = spawn(process.execPath, ["server/syncServer.mjs"], { env: { ...process.env, PORT: "0", SYNC_DATA_DIR: dataDir }, stdio: ["ignore", "pipe", "inherit"] });
+  baseUrl = await new Promise<string>((resolve, reject) => {
+    let out = "";
+    server.stdout?.on("data", (chunk: Buffer) => {
+      out += chunk.toString();
+      const port = /on :(\d+)/.exec(out)?.[1];
+      if (port) resolve(`http://127.0.0.1:${port}`);
+    });
+    server.once("exit", (code) => reject(new Error(`sync server exited with ${code}`)));
+  });
+});
+
+after(async () => {
+  server.kill();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+const quiet: ScopedLog = { debug: () => undefined, info: () => undefined, warn: () => undefined, error: () => undefined };
+
+/** An in-memory library; writes made by sync go through LocalLibrary and are not local edits. */
+function device(name: string, wrapClient: (client: SyncClient) => SyncClient = (c) => c) {
+  const notes = new Map<string, Note>();
+  const audio = new Map<string, Blob>();
+  let tombstones: Tombstone[] = [];
+  let taxonomy: Taxonomy = { categories: [], tags: [] };
+  let saved: SyncState | null = null;
+  const local: LocalLibrary = {
+    notes: async () => [...notes.values()],
+    tombstones: async () => tombstones,
+    forgetTombstones: async (ids) => { tombstones = tombstones.filter((t) => !ids.includes(t.id)); },
+    taxonomy: async () => taxonomy,
+    setTaxonomy: async (t) => { taxonomy = t; },
+    readAudio: async (note) => audio.get(note.id) ?? null,
+    putNote: async (wire, blob) => {
+      const note: Note = { ...wire, webPath: "" };
+      notes.set(note.id, note);
+      if (blob) audio.set(note.id, blob);
+      tombstones = tombstones.filter((t) => t.id !== note.id);
+      return note;
+    },
+    removeNote: async (id) => { notes.delete(id); audio.delete(id); },
+  };
+  const client = wrapClient(createSyncClient({ baseUrl }));
+  const engine = new SyncEngine({
+    local,
+    persistence: { load: async () => saved, save: async (s) => { saved = structuredClone(s); } },
+    client: () => client,
+    newDeviceId: () => name,
+    log: quiet,
+  });
+  return {
+    engine,
+    notes,
+    audio,
+    tombstones: () => tombstones,
+    taxonomy: () => taxonomy,
+    /** Local edits, as the notes store would make them. */
+    record(note: Note, blob: Blob) { notes.set(note.id, note); audio.set(note.id, blob); },
+    edit(id: string, patch: Partial<Note>) { notes.set(id, { ...(notes.get(id) as Note), ...patch }); },
+    remove(id: string, deletedAt: string) { notes.delete(id); audio.delete(id); tombstones = [...tombstones, { id, deletedAt }]; },
+    setLabels(t: Taxonomy) { taxonomy = t; },
+    /** One round; fails the test if the round recorded an error. */
+    async sync() { await engine.sync(); assert.equal(engine.getSnapshot().lastError, null); },
+  };
+}
+
+const memo = (id: string, at: string): Note => ({ id, filePath: `audio/${id}.m4a`, webPath: "", createdAt: at, updatedAt: at, mimeType: "audio/mp4", durationMs: 1_500, label: id });
+
+test("a recording pushed by one device is pulled by another, audio included", async () => {
+  const a = device("device-a");
+  const b = device("device-b");
+  a.record(memo("push-1", "2025-01-01T10:00:00.000Z"), new Blob(["first take"], { type: "audio/mp4" }));
+  a.setLabels({ categories: [{ id: "walks", name: "Walks", color: "#22c55e", icon: "🚶" }], tags: [] });
+  await a.sync();
+  assert.equal(a.engine.getSnapshot().pending, 0);
+
+  await b.sync();
+  assert.equal(b.notes.get("push-1")?.label, "push-1");
+  assert.equal(await b.audio.get("push-1")?.text(), "first take");
+  assert.deepEqual(b.taxonomy().categories.map((c) => c.id), ["walks"]);
+});
+
+test("a delete travels as a tombstone and the tombstone is then forgotten", async () => {
+  const a = device("device-a");
+  const b = device("device-b");
+  a.record(memo("del-1", "2025-01-02T10:00:00.000Z"), new Blob(["doomed"]));
+  await a.sync();
+  await b.sync();
+  assert.ok(b.notes.has("del-1"));
+
+  a.remove("del-1", "2025-01-02T11:00:00.000Z");
+  await a.sync();
+  assert.deepEqual(a.tombstones(), []);
+  await b.sync();
+  assert.ok(!b.notes.has("del-1"));
+  assert.ok(!b.audio.has("del-1"));
+});
+
+test("a write refused for a stale rev goes to the later edit", async () => {
+  let beforePut: (() => Promise<void>) | null = null;
+  // Lets the other device write between this one's pull and its push.
+  const racing = (client: SyncClient): SyncClient => ({
+    ...client,
+    async putNote(id, body) {
+      const hook = beforePut; beforePut = null;
+      if (hook) await hook();
+      return client.putNote(id, body);
+    },
+  });
+  const a = device("device-a");
+  const b = device("device-b", racing);
+  a.record(memo("race-1", "2025-01-03T10:00:00.000Z"), new Blob(["shared"]));
+  await a.sync();
+  await b.sync();
+
+  // B's later edit wins over A's earlier one, which reached the server first.
+  a.edit("race-1", { label: "from A", updatedAt: "2025-01-03T11:00:00.000Z" });
+  b.edit("race-1", { label: "from B", updatedAt: "2025-01-03T12:00:00.000Z" });
+  beforePut = () => a.sync();
+  await b.sync();
+  assert.equal(beforePut, null, "A wrote in the middle of B's round");
+  await a.sync();
+  assert.equal(a.notes.get("race-1")?.label, "from B");
+  assert.equal(b.notes.get("race-1")?.label, "from B");
+
+  // Now A's edit is the later one: B's stale write loses and B takes A's version.
+  b.edit("race-1", { label: "B again", updatedAt: "2025-01-03T13:00:00.000Z" });
+  a.edit("race-1", { label: "A last", updatedAt: "2025-01-03T14:00:00.000Z" });
+  beforePut = () => a.sync();
+  await b.sync();
+  assert.equal(b.notes.get("race-1")?.label, "A last");
+  await a.sync();
+  assert.equal(a.notes.get("race-1")?.label, "A last");
+  assert.equal(b.engine.getSnapshot().pending, 0);
+});
@@ -0,0 +1,378 @@
+import type { Note, Taxonomy, Tombstone } from "../types";
+import { mergeTaxonomy, sanitizeTaxonomy } from "../taxonomy";
+import { SyncError } from "./client";
+import type { SyncClient } from "./client";
+import { audioKey, hashString, stableStringify } from "./hash";
+import type { AudioRef, RemoteNote, RemoteTaxonomy, WireNote } from "./protocol";
+import type { ScopedLog } from "../diagnostics/log";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sync engine
+//
+// A round pulls the server's change feed, then pushes whatever changed here.
+// Nothing is queued explicitly: for every note the device remembers the server
+// rev it last saw and a hash of the note as it was then, so anything edited,
+// recorded or deleted (tombstones) while offline is simply found different on
+// the next round. Conflicts go to the later edit by updatedAt, deletes
+// included. Nothing in here touches Capacitor; it runs under Node against the
+// reference server.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** The device's view of one note on the server. */
+export type SyncRecord = {
+  rev: number;
+  /** noteHash() when last in step with the server; DELETED for tombstones. */
+  hash: string;
+  /** Audio key last uploaded or downloaded. */
+  audio?: string;
+};
+
+export type SyncState = {
+  deviceId: string;
+  serverId: string | null;
+  cursor: number;
+  notes: Record<string, SyncRecord>;
+  taxonomy: { rev: number; hash: string };
+  lastSyncAt: string | null;
+};
+
+export type SyncStatePersistence = {
+  load(): Promise<SyncState | null>;
+  save(state: SyncState): Promise<void>;
+};
+
+/** What the engine needs from the library. Writes made through it must not count as local edits. */
+export type LocalLibrary = {
+  notes(): Promise<Note[]>;
+  tombstones(): Promise<Tombstone[]>;
+  forgetTombstones(ids: string[]): Promise<void>;
+  taxonomy(): Promise<Taxonomy>;
+  setTaxonomy(taxonomy: Taxonomy): Promise<void>;
+  readAudio(note: Note): Promise<Blob | null>;
+  /** Stores a note from the server with its audio (null when the local copy is current) and returns it as stored. */
+  putNote(note: WireNote, audio: Blob | null): Promise<Note>;
+  removeNote(id: string): Promise<void>;
+};
+
+export type SyncPhase = "off" | "idle" | "syncing" | "offline" | "error";
+
+export type SyncSnapshot = {
+  phase: SyncPhase;
+  /** Local changes the server has not got yet. */
+  pending: number;
+  lastSyncAt: string | null;
+  lastError: string | null;
+};
+
+export type SyncEngineOptions = {
+  local: LocalLibrary;
+  persistence: SyncStatePersistence;
+  /** The configured server, or null while sync is off. */
+  client: () => SyncClient | null;
+  newDeviceId: () => string;
+  /** Called after a round that changed the local library. */
+  onApplied?: () => void;
+  /** Where failures are reported; the app passes its diagnostics logger. */
+  log: ScopedLog;
+  intervalMs?: number;
+  now?: () => number;
+};
+
+const DELETED = "deleted";
+/** A note that loses this many write races in one round waits for the next. */
+const MAX_PUT_ATTEMPTS = 3;
+const EMPTY: Taxonomy = { categories: [], tags: [] };
+
+export function noteHash(n: WireNote | Note): string {
+  const wire: Partial<Note> = { ...n };
+  delete wire.webPath;
+  return hashString(stableStringify(wire));
+}
+
+function toWire(n: Note): WireNote {
+  const wire: Partial<Note> = { ...n };
+  delete wire.webPath;
+  return wire as WireNote;
+}
+
+const taxonomyHash = (t: Taxonomy) => hashString(stableStringify(t));
+const editedAt = (n: Note) => n.updatedAt ?? n.createdAt;
+
+export class SyncEngine {
+  private readonly options: Required<Omit<SyncEngineOptions, "onApplied">> & Pick<SyncEngineOptions, "onApplied">;
+  private snapshot: SyncSnapshot = { phase: "off", pending: 0, lastSyncAt: null, lastError: null };
+  private listeners = new Set<(s: SyncSnapshot) => void>();
+  private state: SyncState | null = null;
+  private running: Promise<void> | null = null;
+  private again = false;
+  private started = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private interval: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: SyncEngineOptions) {
+    this.options = { intervalMs: 2 * 60_000, now: Date.now, ...options };
+  }
+
+  getSnapshot = (): SyncSnapshot => this.snapshot;
+
+  subscribe = (listener: (s: SyncSnapshot) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  /** Syncs now and then every intervalMs. */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+    this.interval = setInterval(() => void this.sync(), this.options.intervalMs);
+    await this.sync();
+  }
+
+  stop(): void {
+    this.started = false;
+    if (this.timer) { clearTimeout(this.timer); this.timer = null; }
+    if (this.interval) { clearInterval(this.interval); this.interval = null; }
+  }
+
+  /** Runs a round after `delayMs`, replacing any round already scheduled. */
+  schedule(delayMs = 0): void {
+    if (!this.started) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => { this.timer = null; void this.sync(); }, delayMs);
+  }
+
+  /** Call after local edits: recounts what is waiting and syncs shortly after. */
+  changed(): void {
+    void this.recount();
+    this.schedule(5_000);
+  }
+
+  /** One round; a call while one is running runs another right after it. Never throws. */
+  sync(): Promise<void> {
+    if (this.running) { this.again = true; return this.running; }
+    this.running = (async () => {
+      do {
+        this.again = false;
+        await this.round();
+      } while (this.again);
+    })().finally(() => { this.running = null; });
+    return this.running;
+  }
+
+  private async round(): Promise<void> {
+    const client = this.options.client();
+    if (!client) { await this.recount("off"); return; }
+    this.set({ phase: "syncing" });
+    let applied = false;
+    try {
+      const state = await this.loadState();
+      applied = await this.pull(client, state);
+      await this.push(client, state);
+      state.lastSyncAt = new Date(this.options.now()).toISOString();
+      await this.options.persistence.save(state);
+      this.set({ lastSyncAt: state.lastSyncAt, lastError: null });
+      await this.recount("idle");
+    } catch (err) {
+      const offline = err instanceof SyncError && err.code === "NETWORK";
+      if (!offline) this.options.log.warn("sync failed", err);
+      this.set({ lastError: err instanceof SyncError && err.detail ? `${err.message}: ${err.detail}` : err instanceof Error ? err.message : String(err) });
+      await this.recount(offline ? "offline" : "error");
+    }
+    if (applied) this.options.onApplied?.();
+  }
+
+  // ── Pull ──────────────────────────────────────────────────────────────────
+
+  /** Returns whether anything local changed. */
+  private async pull(client: SyncClient, state: SyncState): Promise<boolean> {
+    let applied = false;
+    for (let more = true; more;) {
+      const page = await client.changes(state.cursor);
+      if (page.serverId !== state.serverId) {
+        // A different server (or a wiped one): this page followed a cursor that means nothing there.
+        const stale = state.cursor !== 0;
+        if (state.serverId !== null) this.options.log.warn("sync server changed; starting over");
+        this.reset(state, page.serverId);
+        if (stale) continue;
+      }
+      if (await this.receiveTaxonomy(page.taxonomy, state)) applied = true;
+      for (const change of page.changes) if (await this.receive(client, change, state)) applied = true;
+      state.cursor = page.cursor;
+      more = page.more;
+      await this.options.persistence.save(state);
+    }
+    if (await this.recoverLost(client, state)) applied = true;
+    return applied;
+  }
+
+  /**
+   * Settles one server record against the local copy. The server's version is
+   * taken unless this device changed the note since it last synced and did so
+   * later; then only the rev moves on, and push sends the local version over it.
+   */
+  private async receive(client: SyncClient, change: RemoteNote, state: SyncState): Promise<boolean> {
+    const { local } = this.options;
+    const rec = state.notes[change.id];
+    if (rec && rec.rev >= change.rev) return false; // our own write coming back
+    const mine = (await local.notes()).find((n) => n.id === change.id);
+    const tomb = (await local.tombstones()).find((t) => t.id === change.id);
+
+    if (!mine && change.deleted) {
+      state.notes[change.id] = { rev: change.rev, hash: DELETED };
+      if (tomb) await local.forgetTombstones([change.id]);
+      return false;
+    }
+    if (mine && change.note && noteHash(mine) === noteHash(change.note)) {
+      state.notes[change.id] = { rev: change.rev, hash: noteHash(mine), audio: change.audio?.key ?? rec?.audio };
+      return false;
+    }
+
+    const changedHere = mine ? !rec || noteHash(mine) !== rec.hash : !!tomb;
+    if (changedHere) {
+      const localAt = mine ? editedAt(mine) : (tomb as Tombstone).deletedAt;
+      const theirsLater = change.updatedAt > localAt || (change.updatedAt === localAt && change.deviceId > state.deviceId);
+      if (!theirsLater) { state.notes[change.id] = { rev: change.rev, hash: rec?.hash ?? "", audio: rec?.audio }; return false; }
+    }
+
+    if (change.deleted || !change.note) {
+      if (mine) await local.removeNote(change.id);
+      state.notes[change.id] = { rev: change.rev, hash: DELETED };
+      return true;
+    }
+    const needsAudio = change.note.filePath !== "" && change.audio !== null && (!mine || mine.filePath === "" || rec?.audio !== change.audio.key);
+    const audio = needsAudio && change.audio ? await client.getAudio(change.audio.key, change.audio.mimeType) : null;
+    const stored = await local.putNote(change.note, audio);
+    state.notes[change.id] = { rev: change.rev, hash: noteHash(stored), audio: change.audio?.key };
+    return true;
+  }
+
+  private async receiveTaxonomy(remote: RemoteTaxonomy, state: SyncState): Promise<boolean> {
+    if (remote.rev <= state.taxonomy.rev) return false;
+    const { local } = this.options;
+    const mine = await local.taxonomy();
+    const changedHere = taxonomyHash(mine) !== state.taxonomy.hash;
+    // Label lists are merged rather than replaced when both sides changed, so neither side's new labels vanish.
+    const next = changedHere ? mergeTaxonomy(mine, remote.taxonomy) : sanitizeTaxonomy(remote.taxonomy);
+    if (taxonomyHash(next) !== taxonomyHash(mine)) await local.setTaxonomy(next);
+    state.taxonomy = { rev: remote.rev, hash: changedHere ? state.taxonomy.hash : taxonomyHash(next) };
+    return taxonomyHash(next) !== taxonomyHash(mine);
+  }
+
+  /** Notes this device had in step with the server that vanished without a delete (lost audio dropped by repair) are fetched again. */
+  private async recoverLost(client: SyncClient, state: SyncState): Promise<boolean> {
+    const { local } = this.options;
+    const present = new Set((await local.notes()).map((n) => n.id));
+    const deleted = new Set((await local.tombstones()).map((t) => t.id));
+    let applied = false;
+    for (const [id, rec] of Object.entries(state.notes)) {
+      if (rec.hash === DELETED || present.has(id) || deleted.has(id)) continue;
+      delete state.notes[id];
+      const remote = await client.note(id);
+      if (remote && (await this.receive(client, remote, state))) applied = true;
+    }
+    return applied;
+  }
+
+  // ── Push ──────────────────────────────────────────────────────────────────
+
+  private async push(client: SyncClient, state: SyncState): Promise<void> {
+    const { local } = this.options;
+    await this.pushTaxonomy(client, state);
+    for (const note of await local.notes()) {
+      if (this.isDirty(note, state)) await this.pushNote(client, note, state);
+    }
+    for (const tomb of await local.tombstones()) await this.pushDelete(client, tomb, state);
+  }
+
+  private isDirty(note: Note, state: SyncState): boolean {
+    const rec = state.notes[note.id];
+    return !rec || rec.hash !== noteHash(note);
+  }
+
+  private async uploadAudio(client: SyncClient, note: Note, state: SyncState): Promise<AudioRef | null | undefined> {
+    if (note.filePath === "") return null;
+    const blob = await this.options.local.readAudio(note);
+    if (!blob) return undefined; // missing from storage; repair's business, not sync's
+    const key = await audioKey(blob);
+    const mimeType = note.mimeType || blob.type;
+    if (state.notes[note.id]?.audio !== key && !(await client.hasAudio(key))) await client.putAudio(key, blob, mimeType);
+    return { key, mimeType, size: blob.size };
+  }
+
+  private async pushNote(client: SyncClient, note: Note, state: SyncState): Promise<void> {
+    let current: Note | undefined = note;
+    for (let attempt = 0; attempt < MAX_PUT_ATTEMPTS && current && this.isDirty(current, state); attempt++) {
+      const audio = await this.uploadAudio(client, current, state);
+      if (audio === undefined) return;
+      const rec = state.notes[current.id];
+      const res = await client.putNote(current.id, { baseRev: rec?.rev ?? 0, deviceId: state.deviceId, updatedAt: editedAt(current), deleted: false, note: toWire(current), audio });
+      if (res.ok) { state.notes[current.id] = { rev: res.value.rev, hash: noteHash(current), audio: audio?.key }; return; }
+      await this.receive(client, res.current, state);
+      current = (await this.options.local.notes()).find((n) => n.id === note.id);
+    }
+  }
+
+  private async pushDelete(client: SyncClient, tomb: Tombstone, state: SyncState): Promise<void> {
+    const { local } = this.options;
+    for (let attempt = 0; attempt < MAX_PUT_ATTEMPTS; attempt++) {
+      const rec = state.notes[tomb.id];
+      // The server never had it, or already has the delete.
+      if (!rec || rec.hash === DELETED) { await local.forgetTombstones([tomb.id]); return; }
+      const res = await client.putNote(tomb.id, { baseRev: rec.rev, deviceId: state.deviceId, updatedAt: tomb.deletedAt, deleted: true, note: null, audio: null });
+      if (res.ok) { state.notes[tomb.id] = { rev: res.value.rev, hash: DELETED }; await local.forgetTombstones([tomb.id]); return; }
+      await this.receive(client, res.current, state);
+      // A later edit elsewhere brought the note back; putNote dropped the tombstone with it.
+      if (!(await local.tombstones()).some((t) => t.id === tomb.id)) return;
+    }
+  }
+
+  private async pushTaxonomy(client: SyncClient, state: SyncState): Promise<void> {
+    for (let attempt = 0; attempt < MAX_PUT_ATTEMPTS; attempt++) {
+      const taxonomy = await this.options.local.taxonomy();
+      const hash = taxonomyHash(taxonomy);
+      if (hash === state.taxonomy.hash) return;
+      const res = await client.putTaxonomy({ baseRev: state.taxonomy.rev, deviceId: state.deviceId, updatedAt: new Date(this.options.now()).toISOString(), taxonomy });
+      if (res.ok) { state.taxonomy = { rev: res.value.rev, hash }; return; }
+      await this.receiveTaxonomy(res.current, state);
+    }
+  }
+
+  // ── State ─────────────────────────────────────────────────────────────────
+
+  private async loadState(): Promise<SyncState> {
+    if (!this.state) {
+      const loaded = await this.options.persistence.load().catch((err) => { this.options.log.warn("sync state load failed", err); return null; });
+      this.state = loaded ?? { deviceId: this.options.newDeviceId(), serverId: null, cursor: 0, notes: {}, taxonomy: { rev: 0, hash: taxonomyHash(EMPTY) }, lastSyncAt: null };
+    }
+    return this.state;
+  }
+
+  /** Forgets everything about the previous server; the device id survives. */
+  private reset(state: SyncState, serverId: string): void {
+    state.serverId = serverId;
+    state.cursor = 0;
+    state.notes = {};
+    state.taxonomy = { rev: 0, hash: taxonomyHash(EMPTY) };
+  }
+
+  private async recount(phase?: SyncPhase): Promise<void> {
+    try {
+      const { local } = this.options;
+      const state = await this.loadState();
+      const notes = (await local.notes()).filter((n) => this.isDirty(n, state)).length;
+      const tombs = (await local.tombstones()).length;
+      const labels = taxonomyHash(await local.taxonomy()) !== state.taxonomy.hash ? 1 : 0;
+      this.set({ pending: notes + tombs + labels, ...(phase ? { phase } : {}), ...(this.options.client() ? {} : { phase: "off" as const }) });
+    } catch (err) {
+      this.options.log.warn("sync recount failed", err);
+      if (phase) this.set({ phase });
+    }
+  }
+
+  private set(patch: Partial<SyncSnapshot>): void {
+    const next = { ...this.snapshot, ...patch };
+    if ((Object.keys(next) as (keyof SyncSnapshot)[]).every((k) => next[k] === this.snapshot[k])) return;
+    this.snapshot = next;
+    for (const l of this.listeners) l(next);
+  }
+}
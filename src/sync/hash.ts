@@ -0,0 +1,39 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Change detection hashes
+//
+// cyrb53: fast, 53 bits, good enough to notice that a note or a recording
+// changed. Not a security measure. server/syncServer.mjs carries a copy to
+// check audio uploads against their key.
+// ─────────────────────────────────────────────────────────────────────────────
+
+function cyrb53(length: number, at: (i: number) => number): string {
+  let h1 = 0xdeadbeef; let h2 = 0x41c6ce57;
+  for (let i = 0; i < length; i++) {
+    const c = at(i);
+    h1 = Math.imul(h1 ^ c, 2654435761);
+    h2 = Math.imul(h2 ^ c, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+export function hashString(s: string): string {
+  return cyrb53(s.length, (i) => s.charCodeAt(i));
+}
+
+/** JSON with object keys sorted, so equal values always hash alike. */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Content address for a recording: `<hash>-<size>`, both base 36. */
+export async function audioKey(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return `${cyrb53(bytes.length, (i) => bytes[i])}-${bytes.length.toString(36)}`;
+}
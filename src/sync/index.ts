@@ -0,0 +1,7 @@
+export { SyncEngine, noteHash } from "./engine";
+export type { LocalLibrary, SyncEngineOptions, SyncPhase, SyncRecord, SyncSnapshot, SyncState, SyncStatePersistence } from "./engine";
+export { SyncError, createSyncClient } from "./client";
+export type { PutResult, SyncClient, SyncClientConfig, SyncErrorCode } from "./client";
+export { getSyncSettings, onRemoteChanges, saveSyncSettings, syncer } from "./service";
+export type { SyncSettings } from "./service";
+export type { AudioRef, ChangesResponse, PutNoteBody, PutTaxonomyBody, RemoteNote, RemoteTaxonomy, WireNote } from "./protocol";
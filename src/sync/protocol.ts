@@ -0,0 +1,72 @@
+import type { Note, Taxonomy } from "../types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sync wire protocol (v1)
+//
+// The server keeps one record per note id. Every accepted write bumps that
+// note's `rev` and gives it the next `seq` in a library-wide change feed, so a
+// device catches up with GET /v1/changes?since=<last seq it saw>. A write must
+// name the rev it was based on; a stale one is refused with 409 and the
+// current record, and the device settles the conflict itself. Deletes are
+// records too (tombstones), so a device that was offline still learns of them.
+//
+//   GET  /v1/changes?since=<seq>&limit=<n>  → ChangesResponse
+//   GET  /v1/notes/<id>                     → RemoteNote | 404
+//   PUT  /v1/notes/<id>      PutNoteBody     → RemoteNote | 409 ConflictBody
+//   PUT  /v1/taxonomy        PutTaxonomyBody → RemoteTaxonomy | 409 ConflictBody
+//   HEAD /v1/audio/<key>                    → 200 | 404
+//   GET  /v1/audio/<key>                    → bytes
+//   PUT  /v1/audio/<key>     bytes           → 204
+//
+// Audio is content-addressed (see hash.ts), uploaded before the note that
+// refers to it, and never changes under a key. server/syncServer.mjs is the
+// reference implementation.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const SYNC_API = "v1";
+
+/** A note as the server stores it; webPath is device-local and never leaves the device. */
+export type WireNote = Omit<Note, "webPath">;
+
+export type AudioRef = { key: string; mimeType: string; size: number };
+
+export type RemoteNote = {
+  id: string;
+  /** Bumped by the server on every accepted write to this note. */
+  rev: number;
+  /** Position in the change feed. */
+  seq: number;
+  deleted: boolean;
+  /** When the writing device made the change; conflicts are settled by it. */
+  updatedAt: string;
+  deviceId: string;
+  /** Null once deleted. */
+  note: WireNote | null;
+  audio: AudioRef | null;
+};
+
+export type RemoteTaxonomy = { rev: number; taxonomy: Taxonomy; updatedAt: string; deviceId: string };
+
+export type ChangesResponse = {
+  /** Random per server data directory; a different one means the device must start over. */
+  serverId: string;
+  /** Pass as `since` for the next page. */
+  cursor: number;
+  more: boolean;
+  changes: RemoteNote[];
+  taxonomy: RemoteTaxonomy;
+};
+
+export type PutNoteBody = {
+  /** The rev this write is based on; 0 for a note the device has never seen on the server. */
+  baseRev: number;
+  deviceId: string;
+  updatedAt: string;
+  deleted: boolean;
+  note: WireNote | null;
+  audio: AudioRef | null;
+};
+
+export type PutTaxonomyBody = { baseRev: number; deviceId: string; updatedAt: string; taxonomy: Taxonomy };
+
+export type ConflictBody<T> = { error: "conflict"; current: T };
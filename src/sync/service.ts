@@ -0,0 +1,119 @@
+import { Filesystem, Directory, Encoding } from "@capacitor/filesystem";
+import { v4 as uuidv4 } from "uuid";
+import type { Note, Taxonomy } from "../types";
+import { AUDIO_DIR, deleteAudio, hasAudio, readAudio, replaceAudio, writeAudio } from "../audioStorage";
+import { mimeToExt } from "../audioFormat";
+import { applyRemoteNotes, forgetTombstones, mutateTaxonomy, readNotes, readTaxonomy, readTombstones } from "../notesStore";
+import { logger } from "../diagnostics/log";
+import { deleteTranscript, transcriber } from "../transcription";
+import { createSyncClient } from "./client";
+import type { SyncClient } from "./client";
+import { SyncEngine } from "./engine";
+import type { LocalLibrary, SyncState, SyncStatePersistence } from "./engine";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// App-wide sync service: settings, the state file and the engine wired to the
+// notes store and audio storage.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type SyncSettings = {
+  /** Empty turns sync off. */
+  serverUrl: string;
+  token: string;
+};
+
+const SETTINGS_KEY = "gv.sync";
+const STATE_FILE = "syncState.json";
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = { serverUrl: "", token: "" };
+
+export function loadSyncSettings(): SyncSettings {
+  try {
+    return { ...DEFAULT_SYNC_SETTINGS, ...(JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "{}") as Partial<SyncSettings>) };
+  } catch {
+    return DEFAULT_SYNC_SETTINGS;
+  }
+}
+
+function clientFor(s: SyncSettings): SyncClient | null {
+  try { return s.serverUrl ? createSyncClient({ baseUrl: s.serverUrl, token: s.token || undefined }) : null; } catch { return null; }
+}
+
+const fileStatePersistence: SyncStatePersistence = {
+  async load() {
+    try {
+      const { data } = await Filesystem.readFile({ path: STATE_FILE, directory: Directory.Data, encoding: Encoding.UTF8 });
+      return JSON.parse(typeof data === "string" ? data : await data.text()) as SyncState;
+    } catch {
+      return null; // never synced
+    }
+  },
+  async save(state) {
+    await Filesystem.writeFile({ path: STATE_FILE, directory: Directory.Data, data: JSON.stringify(state), encoding: Encoding.UTF8 });
+  },
+};
+
+const library: LocalLibrary = {
+  notes: readNotes,
+  tombstones: readTombstones,
+  forgetTombstones,
+  taxonomy: readTaxonomy,
+  async setTaxonomy(taxonomy) { await mutateTaxonomy(() => taxonomy); },
+  readAudio,
+  async putNote(wire, audio) {
+    const existing = (await readNotes()).find((n) => n.id === wire.id);
+    let note: Note = { ...wire, webPath: "" };
+    if (audio) {
+      const mimeType = wire.mimeType || audio.type;
+      const filePath = `${AUDIO_DIR}/${wire.id}.${mimeToExt(mimeType)}`;
+      const recorded = { kind: "blob" as const, blob: audio, mimeType };
+      note = { ...note, filePath, mimeType, webPath: existing ? await replaceAudio(existing, filePath, recorded) : await writeAudio(wire.id, filePath, recorded) };
+    } else if (existing && hasAudio(existing) && hasAudio(note)) {
+      note = { ...note, filePath: existing.filePath, webPath: existing.webPath };
+    } else {
+      note = { ...note, filePath: "" };
+    }
+    await applyRemoteNotes([note], []);
+    return note;
+  },
+  async removeNote(id) {
+    const existing = (await readNotes()).find((n) => n.id === id);
+    if (existing) await deleteAudio(existing);
+    await deleteTranscript(id);
+    transcriber.remove(id);
+    await applyRemoteNotes([], [id]);
+  },
+};
+
+let settings = loadSyncSettings();
+let client = clientFor(settings);
+const appliedListeners = new Set<(u: { notes: Note[]; taxonomy: Taxonomy }) => void>();
+
+export const syncer = new SyncEngine({
+  local: library,
+  persistence: fileStatePersistence,
+  client: () => client,
+  newDeviceId: uuidv4,
+  log: logger("sync"),
+  async onApplied() {
+    const update = { notes: await readNotes(), taxonomy: await readTaxonomy() };
+    for (const l of appliedListeners) l(update);
+  },
+});
+
+export function getSyncSettings(): SyncSettings {
+  return settings;
+}
+
+export function saveSyncSettings(next: SyncSettings): void {
+  settings = next;
+  client = clientFor(next);
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+  syncer.schedule(0);
+}
+
+/** Notified with the whole library after a sync round brought changes from other devices. */
+export function onRemoteChanges(listener: (u: { notes: Note[]; taxonomy: Taxonomy }) => void): () => void {
+  appliedListeners.add(listener);
+  return () => { appliedListeners.delete(listener); };
+}
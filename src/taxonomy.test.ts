@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mergeTaxonomy, sanitizeTaxonomy } from "./taxonomy";
+import type { NoteLabel } from "./types";
+
+const label = (id: string, patch: Partial<NoteLabel> = {}): NoteLabel => ({ id, name: id, color: "#22c55e", icon: "🌳", ...patch });
+
+test("drops labels whose colour or icon could carry markup", () => {
+  const raw = {
+    categories: [
+      label("ok"),
+      label("color", { color: 'red"><img src=x onerror=alert(1)>' }),
+      label("named", { color: "red" }),
+      label("icon", { icon: "<img src=x onerror=alert(1)>" }),
+      label("long", { icon: "🌳".repeat(20) }),
+      { id: "partial", name: "no colour" },
+      null,
+    ],
+    tags: "not a list",
+  };
+  assert.deepEqual(sanitizeTaxonomy(raw), { categories: [label("ok")], tags: [] });
+});
+
+test("merging keeps local labels and adds only valid new ones", () => {
+  const local = { categories: [label("a", { color: "#ef4444" })], tags: [] };
+  const incoming = { categories: [label("a"), label("b"), label("c", { color: "url(javascript:x)" })], tags: [label("t")] };
+  assert.deepEqual(mergeTaxonomy(local, incoming), { categories: [label("a", { color: "#ef4444" }), label("b")], tags: [label("t")] });
+});
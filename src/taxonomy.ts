@@ -0,0 +1,58 @@
+import { v4 as uuidv4 } from "uuid";
+import type { Note, NoteLabel, Taxonomy } from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Categories & tags helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const LABEL_COLORS = ["#ef4444", "#f97316", "#eab308", "#22c55e", "#14b8a6", "#3b82f6", "#8b5cf6", "#ec4899", "#78716c"];
+export const LABEL_ICONS = ["📍", "🎵", "🌳", "🏠", "🍴", "☕", "🚶", "🚲", "🐦", "💡", "⭐", "❗"];
+
+/** Style for notes without a (known) category. */
+export const UNCATEGORIZED_STYLE: Pick<NoteLabel, "color" | "icon"> = { color: "#64748b", icon: "🎙️" };
+
+/** A new label whose colour is the first one not already taken. */
+export function createLabel(name: string, existing: NoteLabel[]): NoteLabel {
+  const used = new Set(existing.map((l) => l.color));
+  const color = LABEL_COLORS.find((c) => !used.has(c)) ?? LABEL_COLORS[existing.length % LABEL_COLORS.length];
+  return { id: uuidv4(), name: name.trim(), color, icon: LABEL_ICONS[existing.length % LABEL_ICONS.length] };
+}
+
+export function categoryOf(note: Note, taxonomy: Taxonomy): NoteLabel | undefined {
+  return note.categoryId ? taxonomy.categories.find((c) => c.id === note.categoryId) : undefined;
+}
+
+export function tagsOf(note: Note, taxonomy: Taxonomy): NoteLabel[] {
+  if (!note.tagIds?.length) return [];
+  return taxonomy.tags.filter((t) => note.tagIds?.includes(t.id));
+}
+
+const LABEL_COLOR = /^#[0-9a-f]{6}$/i;
+const MAX_ICON_LENGTH = 16;
+const UNSAFE_ICON = /[<>&"'\p{Cc}]/u;
+
+/**
+ * Labels arrive from imports and the sync server as well as from this device,
+ * and colour and icon end up in map markers: a colour must be #rrggbb and an
+ * icon a short string without markup or control characters.
+ */
+export function isValidLabel(l: unknown): l is NoteLabel {
+  const label = l as Partial<NoteLabel> | null;
+  return typeof label === "object" && label !== null && typeof label.id === "string" && typeof label.name === "string"
+    && typeof label.color === "string" && LABEL_COLOR.test(label.color)
+    && typeof label.icon === "string" && label.icon.length > 0 && label.icon.length <= MAX_ICON_LENGTH && !UNSAFE_ICON.test(label.icon);
+}
+
+/** The valid labels of a taxonomy read from outside; anything else is dropped. */
+export function sanitizeTaxonomy(raw: unknown): Taxonomy {
+  const t = raw as Partial<Taxonomy> | null | undefined;
+  const valid = (list: unknown) => (Array.isArray(list) ? list.filter(isValidLabel) : []);
+  return { categories: valid(t?.categories), tags: valid(t?.tags) };
+}
+
+/** Labels `incoming` has that `local` lacks are appended; same-id entries keep the local name and colour. Invalid incoming labels are dropped. */
+export function mergeTaxonomy(local: Taxonomy, incoming: Taxonomy): Taxonomy {
+  const theirs = sanitizeTaxonomy(incoming);
+  const add = <T extends { id: string }>(mine: T[], other: T[]) => [...mine, ...other.filter((t) => !mine.some((m) => m.id === t.id))];
+  return { categories: add(local.categories, theirs.categories), tags: add(local.tags, theirs.tags) };
+}
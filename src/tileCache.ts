@@ -0,0 +1,217 @@
+import { databaseOpener, iterate, withStore } from "./idb";
+import { tileUrl } from "./tileSources";
+import type { TileSource } from "./tileSources";
+import { logger } from "./diagnostics/log";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Offline tile cache
+//
+// Tiles live in IndexedDB keyed by "<sourceId>/<z>/<x>/<y>". The cache is
+// size-capped; once over the cap the least recently used tiles go first.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const log = logger("tiles");
+
+const STORE = "tiles";
+const CAP_KEY = "gv.tileCacheCapBytes";
+export const DEFAULT_CACHE_CAP_BYTES = 200 * 1024 * 1024;
+// Evict down to this fraction of the cap so we are not evicting on every put.
+const EVICT_TARGET = 0.9;
+// lastUsed is only rewritten when it is older than this, to keep reads cheap.
+const TOUCH_INTERVAL_MS = 60 * 60_000;
+
+type TileRecord = { key: string; sourceId: string; blob: Blob; size: number; storedAt: number; lastUsed: number };
+
+export type TileCoord = { z: number; x: number; y: number };
+
+const openDb = databaseOpener("geo-voice-tiles", 1, (db) => {
+  const store = db.createObjectStore(STORE, { keyPath: "key" });
+  store.createIndex("lastUsed", "lastUsed");
+  store.createIndex("sourceId", "sourceId");
+});
+
+let totalBytes: number | null = null;
+let writes: Promise<unknown> = Promise.resolve();
+
+/**
+ * Everything that writes tiles or moves the running total runs one at a time:
+ * area downloads and map loads store tiles concurrently, and a Clear or cap
+ * change can land in the middle of a download.
+ */
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const run = writes.then(task, task);
+  writes = run.catch(() => undefined);
+  return run;
+}
+
+async function currentTotal(db: IDBDatabase): Promise<number> {
+  if (totalBytes === null) {
+    let sum = 0;
+    await iterate<TileRecord>(db.transaction(STORE, "readonly").objectStore(STORE), (r) => { sum += r.size; });
+    totalBytes = sum;
+  }
+  return totalBytes;
+}
+
+export function getCacheCap(): number {
+  return Number(localStorage.getItem(CAP_KEY)) || DEFAULT_CACHE_CAP_BYTES;
+}
+
+export async function setCacheCap(bytes: number): Promise<void> {
+  localStorage.setItem(CAP_KEY, String(bytes));
+  await serialized(evictIfNeeded);
+}
+
+export function tileKey(sourceId: string, { z, x, y }: TileCoord): string {
+  return `${sourceId}/${z}/${x}/${y}`;
+}
+
+export async function getCachedTile(key: string): Promise<Blob | null> {
+  const db = await openDb();
+  const rec = await withStore<TileRecord | undefined>(db, STORE, "readonly", (s) => s.get(key));
+  if (!rec) return null;
+  if (Date.now() - rec.lastUsed > TOUCH_INTERVAL_MS) {
+    void withStore(db, STORE, "readwrite", (s) => s.put({ ...rec, lastUsed: Date.now() })).catch(() => undefined);
+  }
+  return rec.blob;
+}
+
+export async function hasCachedTile(key: string): Promise<boolean> {
+  const count = await withStore(await openDb(), STORE, "readonly", (s) => s.count(key));
+  return count > 0;
+}
+
+/** Each put updates the running total from what it replaced; see serialized(). */
+export function putCachedTile(sourceId: string, key: string, blob: Blob): Promise<void> {
+  return serialized(async () => {
+    const db = await openDb();
+    await currentTotal(db);
+    const prev = await withStore<TileRecord | undefined>(db, STORE, "readonly", (s) => s.get(key));
+    const now = Date.now();
+    await withStore(db, STORE, "readwrite", (s) => s.put({ key, sourceId, blob, size: blob.size, storedAt: now, lastUsed: now } satisfies TileRecord));
+    totalBytes = (totalBytes ?? 0) - (prev?.size ?? 0) + blob.size;
+    await evictIfNeeded();
+  });
+}
+
+/** Only from inside serialized(). */
+async function evictIfNeeded(): Promise<void> {
+  const db = await openDb();
+  const cap = getCacheCap();
+  if ((await currentTotal(db)) <= cap) return;
+  const target = cap * EVICT_TARGET;
+  const tx = db.transaction(STORE, "readwrite");
+  await iterate<TileRecord>(tx.objectStore(STORE).index("lastUsed"), (r, cursor) => {
+    if ((totalBytes ?? 0) <= target) return false;
+    cursor.delete();
+    totalBytes = (totalBytes ?? 0) - r.size;
+  });
+}
+
+export async function cacheUsage(): Promise<{ bytes: number; count: number; capBytes: number }> {
+  const db = await openDb();
+  const count = await withStore(db, STORE, "readonly", (s) => s.count());
+  // The first count scans the store; a put landing mid-scan would be lost from it.
+  return { bytes: await serialized(() => currentTotal(db)), count, capBytes: getCacheCap() };
+}
+
+export function clearTileCache(): Promise<void> {
+  return serialized(async () => {
+    await withStore(await openDb(), STORE, "readwrite", (s) => s.clear());
+    totalBytes = 0;
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Loading
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function fetchTile(source: TileSource, c: TileCoord, signal?: AbortSignal): Promise<Blob> {
+  const res = await fetch(tileUrl(source, c.z, c.x, c.y), { signal, mode: "cors" });
+  if (!res.ok) throw new Error(`tile ${c.z}/${c.x}/${c.y}: HTTP ${res.status}`);
+  return res.blob();
+}
+
+/**
+ * Cache first, then network (storing what it fetched). Offline, only the cache
+ * is consulted. The tile server must send CORS headers for caching to work.
+ */
+export async function loadTile(source: TileSource, c: TileCoord): Promise<Blob> {
+  const key = tileKey(source.id, c);
+  const cached = await getCachedTile(key).catch(() => null);
+  if (cached) return cached;
+  if (typeof navigator !== "undefined" && navigator.onLine === false) throw new Error(`tile ${key} not cached (offline)`);
+  const blob = await fetchTile(source, c);
+  void putCachedTile(source.id, key, blob).catch((err) => log.warn("tile cache write failed", err));
+  return blob;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Area downloads
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type Bounds = { south: number; west: number; north: number; east: number };
+
+export function lonToTileX(lon: number, z: number): number {
+  return Math.floor(((lon + 180) / 360) * 2 ** z);
+}
+
+export function latToTileY(lat: number, z: number): number {
+  const r = (Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(r) + 1 / Math.cos(r)) / Math.PI) / 2) * 2 ** z);
+}
+
+/** Every tile covering `areas` for zoom levels minZoom..maxZoom, de-duplicated. */
+export function tilesFor(areas: Bounds[], minZoom: number, maxZoom: number): TileCoord[] {
+  const seen = new Set<string>();
+  const out: TileCoord[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const max = 2 ** z - 1;
+    for (const a of areas) {
+      const x0 = Math.max(0, lonToTileX(a.west, z)); const x1 = Math.min(max, lonToTileX(a.east, z));
+      const y0 = Math.max(0, latToTileY(a.north, z)); const y1 = Math.min(max, latToTileY(a.south, z));
+      for (let x = x0; x <= x1; x++) {
+        for (let y = y0; y <= y1; y++) {
+          const k = `${z}/${x}/${y}`;
+          if (!seen.has(k)) { seen.add(k); out.push({ z, x, y }); }
+        }
+      }
+    }
+  }
+  return out;
+}
+
+/** A square of roughly `radiusM` around each point. */
+export function boundsAround(points: { lat: number; lon: number }[], radiusM: number): Bounds[] {
+  const dLat = radiusM / 111_320;
+  return points.map(({ lat, lon }) => {
+    const dLon = radiusM / (111_320 * Math.max(0.01, Math.cos((lat * Math.PI) / 180)));
+    return { south: lat - dLat, north: lat + dLat, west: lon - dLon, east: lon + dLon };
+  });
+}
+
+export type DownloadProgress = { done: number; total: number; fetched: number; skipped: number; failed: number };
+
+export async function downloadTiles(source: TileSource, tiles: TileCoord[], opts: { signal?: AbortSignal; onProgress?: (p: DownloadProgress) => void; concurrency?: number } = {}): Promise<DownloadProgress> {
+  const progress: DownloadProgress = { done: 0, total: tiles.length, fetched: 0, skipped: 0, failed: 0 };
+  let next = 0;
+  const worker = async () => {
+    while (next < tiles.length && !opts.signal?.aborted) {
+      const c = tiles[next++];
+      const key = tileKey(source.id, c);
+      try {
+        if (await hasCachedTile(key)) { progress.skipped++; }
+        else { await putCachedTile(source.id, key, await fetchTile(source, c, opts.signal)); progress.fetched++; }
+      } catch (err) {
+        if (opts.signal?.aborted) break;
+        progress.failed++;
+        log.warn("tile download failed", err);
+      }
+      progress.done++;
+      opts.onProgress?.({ ...progress });
+    }
+  };
+  // Low concurrency on purpose: tile servers rate-limit aggressive clients.
+  await Promise.all(Array.from({ length: opts.concurrency ?? 2 }, worker));
+  return progress;
+}
@@ -0,0 +1,70 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Tile sources (URL template + attribution), persisted in localStorage
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TileSource = {
+  /** Cache namespace: tiles from different sources never mix. */
+  id: string;
+  name: string;
+  /** Leaflet-style template: {s} subdomain, {z}/{x}/{y}, optional {r} for retina. */
+  urlTemplate: string;
+  attribution: string;
+  subdomains?: string;
+  maxZoom: number;
+  /**
+   * The public server's usage policy forbids bulk downloads, so area
+   * downloads from it are capped hard. Self-hosted sources are not.
+   */
+  bulkDownloadLimit?: number;
+};
+
+export const OSM_SOURCE: TileSource = {
+  id: "osm",
+  name: "OpenStreetMap",
+  urlTemplate: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
+  attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
+  subdomains: "abc",
+  maxZoom: 19,
+  bulkDownloadLimit: 250,
+};
+
+export const PRESET_SOURCES: TileSource[] = [OSM_SOURCE];
+
+const SOURCE_KEY = "gv.tileSource";
+
+export function loadTileSource(): TileSource {
+  try {
+    const raw = localStorage.getItem(SOURCE_KEY);
+    if (!raw) return OSM_SOURCE;
+    const parsed = JSON.parse(raw) as Partial<TileSource>;
+    if (typeof parsed.id !== "string" || typeof parsed.urlTemplate !== "string") return OSM_SOURCE;
+    return { name: "Custom", attribution: "", maxZoom: 19, ...parsed } as TileSource;
+  } catch {
+    return OSM_SOURCE;
+  }
+}
+
+export function saveTileSource(source: TileSource): void {
+  localStorage.setItem(SOURCE_KEY, JSON.stringify(source));
+}
+
+/** A user-entered source. The id is derived from the template so re-entering the same server reuses its cache. */
+export function customTileSource(urlTemplate: string, attribution: string, maxZoom = 19): TileSource {
+  const template = urlTemplate.trim();
+  let hash = 0;
+  for (let i = 0; i < template.length; i++) hash = (hash * 31 + template.charCodeAt(i)) | 0;
+  return { id: `custom-${(hash >>> 0).toString(36)}`, name: "Custom", urlTemplate: template, attribution: attribution.trim(), subdomains: "abc", maxZoom };
+}
+
+export function validateTemplate(urlTemplate: string): string | null {
+  const t = urlTemplate.trim();
+  if (!/^https?:\/\//.test(t)) return "Template must start with http:// or https://";
+  for (const part of ["{z}", "{x}", "{y}"]) if (!t.includes(part)) return `Template is missing ${part}`;
+  return null;
+}
+
+export function tileUrl(source: TileSource, z: number, x: number, y: number): string {
+  const subs = source.subdomains || "";
+  const s = subs ? subs[Math.abs(x + y) % subs.length] : "";
+  return source.urlTemplate.replace("{s}", s).replace("{z}", String(z)).replace("{x}", String(x)).replace("{y}", String(y)).replace("{r}", "");
+}
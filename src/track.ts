@@ -0,0 +1,82 @@
+import { Geolocation } from "@capacitor/geolocation";
+import type { NoteLocation, TrackPoint } from "./types";
+import { distanceM } from "./geo";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// GPS track recording for walking memos
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Fixes worse than this are noise at walking speed.
+const MAX_TRACK_ACCURACY_M = 50;
+// Thin the stream: keep a point if it is this far from the last one or this much later.
+const MIN_STEP_M = 3;
+const MIN_INTERVAL_MS = 5_000;
+
+export type TrackSession = {
+  /** Stops watching and returns the points collected so far. Safe to call twice. */
+  stop(): Promise<TrackPoint[]>;
+};
+
+/**
+ * Watches position for the length of a recording. `audioClock` returns the
+ * current audio time in ms, or null while paused (fixes then are skipped).
+ */
+export async function startTrack(audioClock: () => number | null): Promise<TrackSession> {
+  const points: TrackPoint[] = [];
+  let stopped = false;
+  const id = await Geolocation.watchPosition({ enableHighAccuracy: true, maximumAge: 0 }, (pos) => {
+    if (stopped || !pos) return;
+    const t = audioClock();
+    if (t === null || pos.coords.accuracy > MAX_TRACK_ACCURACY_M) return;
+    const p: TrackPoint = { t, lat: pos.coords.latitude, lon: pos.coords.longitude, accuracyM: pos.coords.accuracy, altitudeM: pos.coords.altitude };
+    const last = points[points.length - 1];
+    if (last && distanceM(last, p) < MIN_STEP_M && p.t - last.t < MIN_INTERVAL_MS) return;
+    points.push(p);
+  });
+  return {
+    async stop() {
+      if (!stopped) {
+        stopped = true;
+        await Geolocation.clearWatch({ id }).catch(() => undefined);
+      }
+      return [...points];
+    },
+  };
+}
+
+/** The first point as a note location, for takes where the one-shot capture found nothing. */
+export function trackStartLocation(track: TrackPoint[], startedAt: number): NoteLocation | null {
+  const p = track[0];
+  if (!p) return null;
+  return { lat: p.lat, lon: p.lon, accuracyM: p.accuracyM, altitudeM: p.altitudeM, fixAt: new Date(startedAt + p.t).toISOString(), fixAgeMs: -p.t, source: "recording" };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Track geometry
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Interpolated position at audio time `tMs`, clamped to the ends of the track. */
+export function positionAt(track: TrackPoint[], tMs: number): [number, number] | null {
+  if (track.length === 0) return null;
+  if (tMs <= track[0].t) return [track[0].lat, track[0].lon];
+  for (let i = 1; i < track.length; i++) {
+    const b = track[i];
+    if (tMs > b.t) continue;
+    const a = track[i - 1];
+    const f = b.t === a.t ? 1 : (tMs - a.t) / (b.t - a.t);
+    return [a.lat + (b.lat - a.lat) * f, a.lon + (b.lon - a.lon) * f];
+  }
+  const last = track[track.length - 1];
+  return [last.lat, last.lon];
+}
+
+/** The track point closest to a tapped position. */
+export function nearestPoint(track: TrackPoint[], at: { lat: number; lon: number }): TrackPoint | null {
+  let best: TrackPoint | null = null;
+  let bestD = Infinity;
+  for (const p of track) {
+    const d = distanceM(p, at);
+    if (d < bestD) { best = p; bestD = d; }
+  }
+  return best;
+}
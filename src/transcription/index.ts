@@ -0,0 +1,10 @@
+export { TranscriptionQueue } from "./queue";
+export type { JobPersistence, QueueSnapshot, TranscriptionQueueOptions } from "./queue";
+export { createHttpProvider } from "./providers/http";
+export type { HttpProviderConfig } from "./providers/http";
+export { createStubProvider } from "./providers/stub";
+export { deleteTranscript, listTranscriptFiles, listTranscripts, readTranscript, resealTranscriptFile } from "./storage";
+export { getTranscriptionSettings, onTranscript, saveTranscriptionSettings, transcribeNewNote, transcriber } from "./service";
+export type { TranscriptionSettings } from "./service";
+export { TranscriptionError } from "./types";
+export type { JobState, Transcript, TranscriptResult, TranscriptSegment, TranscriptionErrorCode, TranscriptionJob, TranscriptionProvider } from "./types";
@@ -0,0 +1,60 @@
+import { mimeToExt } from "../../audioFormat";
+import { TranscriptionError } from "../types";
+import type { TranscriptResult, TranscriptSegment, TranscriptionProvider } from "../types";
+
+export type HttpProviderConfig = {
+  /**
+   * Full URL of a speech-to-text endpoint that takes a multipart `file` upload:
+   * an OpenAI-compatible /v1/audio/transcriptions (faster-whisper-server, LocalAI…)
+   * or whisper.cpp's /inference.
+   */
+  endpoint: string;
+  apiKey?: string;
+  model?: string;
+  /** ISO 639-1 hint; empty lets the server detect it. */
+  language?: string;
+};
+
+type ResponseBody = { text?: unknown; language?: unknown; segments?: { start?: unknown; end?: unknown; text?: unknown }[] };
+
+function parseSegments(raw: ResponseBody["segments"]): TranscriptSegment[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const out: TranscriptSegment[] = [];
+  for (const s of raw) {
+    if (typeof s.start !== "number" || typeof s.end !== "number" || typeof s.text !== "string") continue;
+    out.push({ startMs: Math.round(s.start * 1000), endMs: Math.round(s.end * 1000), text: s.text.trim() });
+  }
+  return out.length > 0 ? out : undefined;
+}
+
+export function createHttpProvider(config: HttpProviderConfig): TranscriptionProvider {
+  return {
+    name: `HTTP ${new URL(config.endpoint).host}`,
+    async transcribe(audio, { mimeType, signal }): Promise<TranscriptResult> {
+      const form = new FormData();
+      form.append("file", audio, `memo.${mimeToExt(mimeType)}`);
+      form.append("response_format", "verbose_json");
+      if (config.model) form.append("model", config.model);
+      if (config.language) form.append("language", config.language);
+
+      let res: Response;
+      try {
+        res = await fetch(config.endpoint, { method: "POST", body: form, signal, headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : undefined });
+      } catch (err) {
+        throw new TranscriptionError("NETWORK", err instanceof Error ? err.message : String(err), true, { cause: err });
+      }
+      if (res.status === 401 || res.status === 403) throw new TranscriptionError("NOT_CONFIGURED", `Endpoint refused credentials (HTTP ${res.status})`, false);
+      if (res.status === 408 || res.status === 429 || res.status >= 500) throw new TranscriptionError("SERVER", `HTTP ${res.status}`, true);
+      if (!res.ok) throw new TranscriptionError("REJECTED", `HTTP ${res.status}: ${(await res.text().catch(() => "")).slice(0, 200)}`, false);
+
+      let body: ResponseBody;
+      try { body = (await res.json()) as ResponseBody; } catch (err) { throw new TranscriptionError("BAD_RESPONSE", "Response is not JSON", false, { cause: err }); }
+      if (typeof body.text !== "string") throw new TranscriptionError("BAD_RESPONSE", "Response has no text", false);
+      return {
+        text: body.text.trim(),
+        language: typeof body.language === "string" ? body.language : undefined,
+        segments: parseSegments(body.segments),
+      };
+    },
+  };
+}
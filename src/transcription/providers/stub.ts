@@ -0,0 +1,30 @@
+import { TranscriptionError } from "../types";
+import type { TranscriptResult, TranscriptionProvider } from "../types";
+
+export type StubProviderOptions = {
+  /** Transcript text; defaults to one describing the input. */
+  text?: string | ((audio: Blob) => string);
+  /** Fail this many calls with a retryable NETWORK error before succeeding. */
+  failTimes?: number;
+  /** Fail every call with this non-retryable code. */
+  rejectWith?: "REJECTED" | "BAD_RESPONSE";
+};
+
+export type StubProvider = TranscriptionProvider & { calls: number };
+
+/** Deterministic provider for exercising the queue and search without a server. */
+export function createStubProvider(options: StubProviderOptions = {}): StubProvider {
+  let failuresLeft = options.failTimes ?? 0;
+  const provider: StubProvider = {
+    name: "Stub",
+    calls: 0,
+    async transcribe(audio: Blob, { mimeType }): Promise<TranscriptResult> {
+      provider.calls++;
+      if (options.rejectWith) throw new TranscriptionError(options.rejectWith, "stub rejection", false);
+      if (failuresLeft > 0) { failuresLeft--; throw new TranscriptionError("NETWORK", "stub network failure", true); }
+      const text = typeof options.text === "function" ? options.text(audio) : options.text ?? `stub transcript of ${audio.size} bytes of ${mimeType}`;
+      return { text, language: "en" };
+    },
+  };
+  return provider;
+}
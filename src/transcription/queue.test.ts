@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TranscriptionQueue } from "./queue";
+import type { JobPersistence, QueueSnapshot } from "./queue";
+import { createStubProvider } from "./providers/stub";
+import type { StubProviderOptions } from "./providers/stub";
+import type { TranscriptResult, TranscriptionJob } from "./types";
+import type { ScopedLog } from "../diagnostics/log";
+
+const quiet: ScopedLog = { debug: () => undefined, info: () => undefined, warn: () => undefined, error: () => undefined };
+
+function setup(stub: StubProviderOptions = {}, saved: TranscriptionJob[] = []) {
+  const provider = createStubProvider(stub);
+  const stored = new Map<string, TranscriptResult>();
+  let persisted = saved;
+  const persistence: JobPersistence = { load: async () => persisted, save: async (jobs) => { persisted = jobs; } };
+  const queue = new TranscriptionQueue({
+    persistence,
+    provider: () => provider,
+    fetchAudio: async (noteId) => (noteId === "missing" ? null : { blob: new Blob(["audio"]), mimeType: "audio/mp4" }),
+    store: async (noteId, result) => { stored.set(noteId, result); },
+    maxAttempts: 3,
+    baseDelayMs: 5,
+    maxDelayMs: 20,
+    log: quiet,
+  });
+  return { queue, provider, stored, persisted: () => persisted };
+}
+
+/** Resolves with the first snapshot (current or later) that matches. */
+function until(queue: TranscriptionQueue, match: (s: QueueSnapshot) => boolean): Promise<QueueSnapshot> {
+  return new Promise((resolve) => {
+    if (match(queue.getSnapshot())) { resolve(queue.getSnapshot()); return; }
+    const unsubscribe = queue.subscribe((s) => { if (match(s)) { unsubscribe(); resolve(s); } });
+  });
+}
+
+test("retries network failures with backoff until the transcript is stored", async () => {
+  const { queue, provider, stored } = setup({ failTimes: 2, text: "hello" });
+  await queue.start();
+  const backingOff = until(queue, (s) => s.jobs[0]?.state === "pending" && s.jobs[0].attempts === 1);
+  queue.enqueue("n1");
+  const waiting = (await backingOff).jobs[0];
+  assert.equal(waiting.lastError, "stub network failure");
+  assert.equal(waiting.nextAttemptAt - waiting.updatedAt, 5, "first retry waits baseDelayMs");
+
+  await until(queue, (s) => s.jobs.length === 0);
+  queue.stop();
+  assert.equal(provider.calls, 3);
+  assert.equal(stored.get("n1")?.text, "hello");
+});
+
+test("gives up after maxAttempts and retry() starts over", async () => {
+  const { queue, provider, stored } = setup({ failTimes: 3 });
+  await queue.start();
+  queue.enqueue("n1");
+  const failed = (await until(queue, (s) => s.jobs[0]?.state === "failed")).jobs[0];
+  assert.equal(failed.attempts, 3);
+  assert.equal(provider.calls, 3);
+
+  queue.retry("n1");
+  await until(queue, (s) => s.jobs.length === 0);
+  queue.stop();
+  assert.equal(provider.calls, 4);
+  assert.ok(stored.has("n1"));
+});
+
+test("non-retryable failures park the job straight away", async () => {
+  const { queue, provider } = setup({ rejectWith: "REJECTED" });
+  await queue.start();
+  queue.enqueue("n1");
+  queue.enqueue("missing");
+  const { jobs } = await until(queue, (s) => s.jobs.every((j) => j.state === "failed"));
+  queue.stop();
+  assert.deepEqual(jobs.map((j) => [j.noteId, j.attempts]), [["n1", 1], ["missing", 1]]);
+  assert.match(jobs[1].lastError ?? "", /missing/);
+  assert.equal(provider.calls, 1, "missing audio never reaches the provider");
+});
+
+test("a job that was running when the app died runs again on start", async () => {
+  const { queue, stored, persisted } = setup({}, [{ noteId: "n1", state: "running", attempts: 1, nextAttemptAt: 0, updatedAt: 0 }]);
+  await queue.start();
+  await until(queue, (s) => s.jobs.length === 0);
+  queue.stop();
+  await queue.flush();
+  assert.ok(stored.has("n1"));
+  assert.deepEqual(persisted(), []);
+});
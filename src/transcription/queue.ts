@@ -0,0 +1,169 @@
+import { TranscriptionError } from "./types";
+import type { TranscriptResult, TranscriptionJob, TranscriptionProvider } from "./types";
+import type { ScopedLog } from "../diagnostics/log";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Transcription job queue
+//
+// One job per note, run one at a time. Failures that may clear up (network,
+// busy server) are retried with exponential backoff; the rest park the job as
+// failed until the user retries it. Jobs are persisted on every change, and a
+// job that was running when the app died is picked up again on start().
+// Nothing in here touches Capacitor, so it runs under Node with the stub provider.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type JobPersistence = {
+  load(): Promise<TranscriptionJob[]>;
+  save(jobs: TranscriptionJob[]): Promise<void>;
+};
+
+export type TranscriptionQueueOptions = {
+  persistence: JobPersistence;
+  /** The configured provider, or null while transcription is off (jobs wait). */
+  provider: () => TranscriptionProvider | null;
+  fetchAudio: (noteId: string) => Promise<{ blob: Blob; mimeType: string } | null>;
+  /** Stores a finished transcript; a throw here counts as a retryable failure. */
+  store: (noteId: string, result: TranscriptResult, provider: string) => Promise<void>;
+  /** Where failures are reported; the app passes its diagnostics logger. */
+  log: ScopedLog;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  now?: () => number;
+};
+
+export type QueueSnapshot = { jobs: TranscriptionJob[] };
+
+export class TranscriptionQueue {
+  private readonly options: Required<Omit<TranscriptionQueueOptions, "now">> & { now: () => number };
+  private snapshot: QueueSnapshot = { jobs: [] };
+  private listeners = new Set<(s: QueueSnapshot) => void>();
+  private started = false;
+  private pumping = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: TranscriptionQueueOptions) {
+    this.options = { maxAttempts: 5, baseDelayMs: 30_000, maxDelayMs: 30 * 60_000, now: Date.now, ...options };
+  }
+
+  getSnapshot = (): QueueSnapshot => this.snapshot;
+
+  subscribe = (listener: (s: QueueSnapshot) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  job(noteId: string): TranscriptionJob | undefined {
+    return this.snapshot.jobs.find((j) => j.noteId === noteId);
+  }
+
+  /** Loads persisted jobs and starts working. Jobs enqueued before this are kept. */
+  async start(): Promise<void> {
+    if (this.started) return;
+    const loaded = await this.options.persistence.load().catch((err) => { this.options.log.warn("transcription queue load failed", err); return []; });
+    const pending = new Set(this.snapshot.jobs.map((j) => j.noteId));
+    const restored = loaded.filter((j) => !pending.has(j.noteId)).map((j) => (j.state === "running" ? { ...j, state: "pending" as const } : j));
+    this.started = true;
+    this.setJobs([...restored, ...this.snapshot.jobs]);
+    void this.pump();
+  }
+
+  /** Stops timers; in-flight work finishes but nothing new starts. */
+  stop(): void {
+    this.started = false;
+    if (this.timer) { clearTimeout(this.timer); this.timer = null; }
+  }
+
+  /** Settles once pending writes have landed. */
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  enqueue(noteId: string): void {
+    if (this.job(noteId)) return;
+    this.setJobs([...this.snapshot.jobs, { noteId, state: "pending", attempts: 0, nextAttemptAt: 0, updatedAt: this.options.now() }]);
+    void this.pump();
+  }
+
+  /** Puts a failed (or backing-off) job back at the front of the line. */
+  retry(noteId: string): void {
+    const job = this.job(noteId);
+    if (!job) { this.enqueue(noteId); return; }
+    if (job.state === "running") return;
+    this.replace({ ...job, state: "pending", attempts: 0, nextAttemptAt: 0, lastError: undefined, updatedAt: this.options.now() });
+    void this.pump();
+  }
+
+  remove(noteId: string): void {
+    this.setJobs(this.snapshot.jobs.filter((j) => j.noteId !== noteId));
+  }
+
+  /** Call after the provider configuration changes, so waiting jobs start right away. */
+  kick(): void {
+    void this.pump();
+  }
+
+  private async pump(): Promise<void> {
+    if (this.pumping || !this.started) return;
+    this.pumping = true;
+    try {
+      while (this.started) {
+        const provider = this.options.provider();
+        if (!provider) break;
+        const now = this.options.now();
+        const job = this.snapshot.jobs.find((j) => j.state === "pending" && j.nextAttemptAt <= now);
+        if (!job) break;
+        await this.run(job, provider);
+      }
+    } finally {
+      this.pumping = false;
+      this.armTimer();
+    }
+  }
+
+  private async run(job: TranscriptionJob, provider: TranscriptionProvider): Promise<void> {
+    const { now, maxAttempts, baseDelayMs, maxDelayMs } = this.options;
+    const attempts = job.attempts + 1;
+    this.replace({ ...job, state: "running", attempts, updatedAt: now() });
+    try {
+      const audio = await this.options.fetchAudio(job.noteId);
+      if (!audio) throw new TranscriptionError("NO_AUDIO", "Audio for this memo is missing", false);
+      const result = await provider.transcribe(audio.blob, { mimeType: audio.mimeType });
+      if (!this.job(job.noteId)) return; // removed (note deleted) while running
+      await this.options.store(job.noteId, result, provider.name);
+      this.setJobs(this.snapshot.jobs.filter((j) => j.noteId !== job.noteId));
+    } catch (err) {
+      const retryable = err instanceof TranscriptionError ? err.retryable : true;
+      const lastError = err instanceof Error ? err.message : String(err);
+      if (!this.job(job.noteId)) return; // removed while running
+      if (retryable && attempts < maxAttempts) {
+        const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempts - 1));
+        this.replace({ ...job, state: "pending", attempts, nextAttemptAt: now() + delay, lastError, updatedAt: now() });
+      } else {
+        this.replace({ ...job, state: "failed", attempts, lastError, updatedAt: now() });
+      }
+    }
+  }
+
+  private armTimer(): void {
+    if (this.timer) { clearTimeout(this.timer); this.timer = null; }
+    if (!this.started || !this.options.provider()) return;
+    const waiting = this.snapshot.jobs.filter((j) => j.state === "pending").map((j) => j.nextAttemptAt);
+    if (waiting.length === 0) return;
+    const delay = Math.max(0, Math.min(...waiting) - this.options.now());
+    this.timer = setTimeout(() => { this.timer = null; void this.pump(); }, delay);
+  }
+
+  private replace(job: TranscriptionJob): void {
+    this.setJobs(this.snapshot.jobs.map((j) => (j.noteId === job.noteId ? job : j)));
+  }
+
+  private setJobs(jobs: TranscriptionJob[]): void {
+    this.snapshot = { jobs };
+    for (const l of this.listeners) l(this.snapshot);
+    // Before start() the persisted list has not been read yet; writing now would clobber it.
+    if (!this.started) return;
+    this.saving = this.saving.then(() => this.options.persistence.save(jobs)).catch((err) => this.options.log.warn("transcription queue save failed", err));
+  }
+}
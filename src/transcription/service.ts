@@ -0,0 +1,85 @@
+import { readAudio } from "../audioStorage";
+import { readNotes } from "../notesStore";
+import { logger } from "../diagnostics/log";
+import { TranscriptionQueue } from "./queue";
+import { fileJobPersistence, writeTranscript } from "./storage";
+import { createHttpProvider } from "./providers/http";
+import { createStubProvider } from "./providers/stub";
+import type { Transcript, TranscriptionProvider } from "./types";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// App-wide transcription service: settings, the configured provider and the
+// one queue that every saved memo goes through.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TranscriptionSettings = {
+  provider: "off" | "http" | "stub";
+  endpoint: string;
+  apiKey: string;
+  model: string;
+  language: string;
+  /** Queue every new recording automatically. */
+  auto: boolean;
+};
+
+const SETTINGS_KEY = "gv.transcription";
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = { provider: "off", endpoint: "", apiKey: "", model: "", language: "", auto: true };
+
+export function loadTranscriptionSettings(): TranscriptionSettings {
+  try {
+    return { ...DEFAULT_TRANSCRIPTION_SETTINGS, ...(JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "{}") as Partial<TranscriptionSettings>) };
+  } catch {
+    return DEFAULT_TRANSCRIPTION_SETTINGS;
+  }
+}
+
+function providerFor(s: TranscriptionSettings): TranscriptionProvider | null {
+  switch (s.provider) {
+    case "http":
+      try { return s.endpoint ? createHttpProvider({ endpoint: s.endpoint, apiKey: s.apiKey || undefined, model: s.model || undefined, language: s.language || undefined }) : null; } catch { return null; }
+    case "stub": return createStubProvider();
+    default: return null;
+  }
+}
+
+let settings = loadTranscriptionSettings();
+let provider = providerFor(settings);
+const transcriptListeners = new Set<(t: Transcript) => void>();
+
+export const transcriber = new TranscriptionQueue({
+  persistence: fileJobPersistence,
+  provider: () => provider,
+  async fetchAudio(noteId) {
+    const note = (await readNotes()).find((n) => n.id === noteId);
+    const blob = note ? await readAudio(note) : null;
+    return note && blob ? { blob, mimeType: note.mimeType || blob.type } : null;
+  },
+  async store(noteId, result, providerName) {
+    const transcript: Transcript = { ...result, noteId, provider: providerName, createdAt: new Date().toISOString() };
+    await writeTranscript(transcript);
+    for (const l of transcriptListeners) l(transcript);
+  },
+  log: logger("transcription"),
+});
+
+export function getTranscriptionSettings(): TranscriptionSettings {
+  return settings;
+}
+
+export function saveTranscriptionSettings(next: TranscriptionSettings): void {
+  settings = next;
+  provider = providerFor(next);
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+  transcriber.kick();
+}
+
+/** Called once a recording is saved. */
+export function transcribeNewNote(noteId: string): void {
+  if (settings.auto) transcriber.enqueue(noteId);
+}
+
+export function onTranscript(listener: (t: Transcript) => void): () => void {
+  transcriptListeners.add(listener);
+  return () => { transcriptListeners.delete(listener); };
+}
@@ -0,0 +1,86 @@
+import { Filesystem, Directory, Encoding } from "@capacitor/filesystem";
+import type { Transcript, TranscriptionJob } from "./types";
+import type { JobPersistence } from "./queue";
+import { VaultError } from "../vault/crypto";
+import { vault } from "../vault/vault";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Transcript and job files in Directory.Data
+//
+// transcripts/<id>.json sits beside audio/<id>.<ext>; the job queue lives in
+// transcriptionJobs.json next to notesIndex.json. Transcripts are sealed by the
+// vault when it is on; the job list holds nothing but ids and states.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const TRANSCRIPTS_DIR = "transcripts";
+const JOBS_FILE = "transcriptionJobs.json";
+
+const transcriptPath = (noteId: string) => `${TRANSCRIPTS_DIR}/${noteId}.json`;
+
+async function readText(path: string): Promise<string | null> {
+  try {
+    const { data } = await Filesystem.readFile({ path, directory: Directory.Data, encoding: Encoding.UTF8 });
+    return typeof data === "string" ? data : await data.text();
+  } catch {
+    return null;
+  }
+}
+
+async function readJson<T>(path: string): Promise<T | null> {
+  const text = await readText(path);
+  if (text === null) return null;
+  try {
+    return JSON.parse(await vault.openText(text)) as T;
+  } catch (err) {
+    if (err instanceof VaultError) throw err;
+    return null;
+  }
+}
+
+/** Names of the files in transcripts/. */
+export async function listTranscriptFiles(): Promise<string[]> {
+  try {
+    return (await Filesystem.readdir({ path: TRANSCRIPTS_DIR, directory: Directory.Data })).files.filter((f) => f.type === "file" && f.name.endsWith(".json")).map((f) => f.name);
+  } catch {
+    return []; // nothing transcribed yet
+  }
+}
+
+export async function readTranscript(noteId: string): Promise<Transcript | null> {
+  return readJson<Transcript>(transcriptPath(noteId));
+}
+
+export async function writeTranscript(t: Transcript): Promise<void> {
+  await Filesystem.writeFile({ path: transcriptPath(t.noteId), directory: Directory.Data, data: await vault.sealText(JSON.stringify(t)), encoding: Encoding.UTF8, recursive: true });
+}
+
+export async function deleteTranscript(noteId: string): Promise<void> {
+  await Filesystem.deleteFile({ path: transcriptPath(noteId), directory: Directory.Data }).catch(() => undefined);
+}
+
+/** Every stored transcript; unreadable files are skipped. */
+export async function listTranscripts(): Promise<Transcript[]> {
+  const out: Transcript[] = [];
+  for (const name of await listTranscriptFiles()) {
+    const t = await readJson<Transcript>(`${TRANSCRIPTS_DIR}/${name}`);
+    if (t && typeof t.noteId === "string" && typeof t.text === "string") out.push(t);
+  }
+  return out;
+}
+
+/** Rewrites one file from listTranscriptFiles() in the form the vault now writes. */
+export async function resealTranscriptFile(name: string): Promise<void> {
+  const path = `${TRANSCRIPTS_DIR}/${name}`;
+  const text = await readText(path);
+  if (text !== null) await Filesystem.writeFile({ path, directory: Directory.Data, data: await vault.sealText(await vault.openText(text)), encoding: Encoding.UTF8 });
+}
+
+export const fileJobPersistence: JobPersistence = {
+  async load() {
+    const raw = await readJson<{ jobs?: TranscriptionJob[] }>(JOBS_FILE);
+    return Array.isArray(raw?.jobs) ? raw.jobs : [];
+  },
+  async save(jobs) {
+    await Filesystem.writeFile({ path: JOBS_FILE, directory: Directory.Data, data: JSON.stringify({ jobs }), encoding: Encoding.UTF8 });
+  },
+};
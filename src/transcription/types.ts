@@ -0,0 +1,56 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Transcription contracts
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TranscriptSegment = { startMs: number; endMs: number; text: string };
+
+export type TranscriptResult = {
+  text: string;
+  language?: string;
+  segments?: TranscriptSegment[];
+};
+
+/** What gets stored next to a note's audio (transcripts/<id>.json). */
+export type Transcript = TranscriptResult & {
+  noteId: string;
+  provider: string;
+  createdAt: string;
+};
+
+export type TranscriptionErrorCode =
+  | "NOT_CONFIGURED"
+  | "NO_AUDIO"
+  | "NETWORK"
+  | "SERVER"
+  | "REJECTED"
+  | "BAD_RESPONSE";
+
+export class TranscriptionError extends Error {
+  readonly code: TranscriptionErrorCode;
+  /** Worth trying again later (network down, server busy); false for bad input or config. */
+  readonly retryable: boolean;
+  constructor(code: TranscriptionErrorCode, message: string, retryable: boolean, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "TranscriptionError";
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(audio: Blob, options: { mimeType: string; signal?: AbortSignal }): Promise<TranscriptResult>;
+}
+
+/** Finished jobs are dropped from the queue; the transcript file is their record. */
+export type JobState = "pending" | "running" | "failed";
+
+export type TranscriptionJob = {
+  noteId: string;
+  state: JobState;
+  attempts: number;
+  /** Epoch ms before which a pending job is not retried. */
+  nextAttemptAt: number;
+  lastError?: string;
+  updatedAt: number;
+};
@@ -0,0 +1,69 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Shared domain types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type LocationSource = "recording" | "after-recording" | "manual" | "legacy" | "imported";
+
+export type NoteLocation = {
+  lat: number;
+  lon: number;
+  /** Horizontal accuracy radius in metres (68% confidence, as reported by the platform). Absent for manual/legacy fixes. */
+  accuracyM?: number;
+  altitudeM?: number | null;
+  altitudeAccuracyM?: number | null;
+  headingDeg?: number | null;
+  speedMps?: number | null;
+  /** When the platform took the fix. */
+  fixAt: string;
+  /** How old the fix was when the recording started (negative if taken after). */
+  fixAgeMs: number;
+  source: LocationSource;
+};
+
+/** One fix of a walking memo's track, stamped with the audio time it was taken at. */
+export type TrackPoint = {
+  /** Milliseconds into the audio (paused spans excluded). */
+  t: number;
+  lat: number;
+  lon: number;
+  accuracyM?: number;
+  altitudeM?: number | null;
+};
+
+export type Note = {
+  id: string;
+  /** audio/<id>.<ext>; empty for places imported from plain GeoJSON/GPX, which have no audio. */
+  filePath: string;
+  /** Playable URL on native. Empty on web, where the audio is a Blob in IndexedDB (see audioStorage.openAudio). */
+  webPath: string;
+  createdAt: string;
+  /** Absent when no usable fix was available; see location.ts for backfilling. */
+  location?: NoteLocation;
+  /** Present for memos recorded in track mode; ordered by `t`. */
+  track?: TrackPoint[];
+  label?: string;
+  durationMs?: number;
+  mimeType?: string;
+  /** Id of one of the library's categories; absent (or unknown) means uncategorized. */
+  categoryId?: string;
+  /** Ids of the library's tags. */
+  tagIds?: string[];
+  /** Last local edit, stamped by the store; sync settles conflicting edits by it. Absent on notes never edited since sync arrived (read as createdAt). */
+  updatedAt?: string;
+};
+
+/** Left in the index when a note is deleted, so sync can tell the server. */
+export type Tombstone = { id: string; deletedAt: string };
+
+/** A user-defined category or tag. */
+export type NoteLabel = {
+  id: string;
+  name: string;
+  /** CSS colour, e.g. "#ef4444". */
+  color: string;
+  /** A single emoji shown on markers and chips. */
+  icon: string;
+};
+
+/** The library's categories (one per note, drives marker style) and tags (any number per note). */
+export type Taxonomy = { categories: NoteLabel[]; tags: NoteLabel[] };
@@ -0,0 +1,127 @@
+import { arrayBufferToBase64, base64ToBytes } from "../audioFormat";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Vault cryptography (WebCrypto only; runs under Node 20 as well)
+//
+// Data is encrypted with AES-256-GCM under random data keys. Data keys are
+// stored wrapped (AES-GCM again) by a key derived from the passphrase with
+// PBKDF2-SHA-256, so a wrong passphrase shows up as a failed unwrap.
+//
+// Sealed bytes: "GVE1" | key id (8) | IV (12) | ciphertext + tag.
+// Sealed text:  "GVE1:" + base64 of the sealed bytes, so it can live in files
+//               written with UTF-8 encoding.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const MAGIC = [0x47, 0x56, 0x45, 0x31]; // "GVE1"
+const TEXT_PREFIX = "GVE1:";
+const ID_BYTES = 8;
+const IV_BYTES = 12;
+const HEADER_BYTES = MAGIC.length + ID_BYTES + IV_BYTES;
+
+/** OWASP's 2023 figure for PBKDF2-HMAC-SHA256. */
+export const KDF_ITERATIONS = 600_000;
+
+export type WrappedKey = { id: string; iv: string; data: string };
+
+export type DataKey = { id: string; key: CryptoKey };
+
+export type VaultErrorCode = "LOCKED" | "WRONG_PASSPHRASE" | "NOT_ENABLED" | "ALREADY_ENABLED" | "BUSY" | "CORRUPT";
+
+export class VaultError extends Error {
+  readonly code: VaultErrorCode;
+  constructor(code: VaultErrorCode, message: string) {
+    super(message);
+    this.name = "VaultError";
+    this.code = code;
+  }
+}
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+const unhex = (s: string) => new Uint8Array((s.match(/../g) ?? []).map((h) => parseInt(h, 16)));
+
+export function randomSalt(): string {
+  return arrayBufferToBase64(crypto.getRandomValues(new Uint8Array(16)).buffer);
+}
+
+export async function deriveWrappingKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey({ name: "PBKDF2", hash: "SHA-256", salt: base64ToBytes(salt), iterations }, material, { name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+}
+
+/** A fresh data key, returned both usable and wrapped for storage. */
+export async function createDataKey(wrapping: CryptoKey): Promise<{ dataKey: DataKey; wrapped: WrappedKey }> {
+  const raw = crypto.getRandomValues(new Uint8Array(32));
+  const id = hex(crypto.getRandomValues(new Uint8Array(ID_BYTES)));
+  const key = await crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+  const wrapped = await wrapRaw(wrapping, id, raw);
+  raw.fill(0);
+  return { dataKey: { id, key }, wrapped };
+}
+
+async function wrapRaw(wrapping: CryptoKey, id: string, raw: Uint8Array<ArrayBuffer>): Promise<WrappedKey> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  // The id is authenticated with the key, so wrapped keys cannot be swapped around.
+  const data = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: new TextEncoder().encode(id) }, wrapping, raw));
+  return { id, iv: arrayBufferToBase64(iv.buffer), data: arrayBufferToBase64(data.buffer) };
+}
+
+async function unwrapRaw(wrapping: CryptoKey, w: WrappedKey): Promise<Uint8Array<ArrayBuffer>> {
+  try {
+    return new Uint8Array(await crypto.subtle.decrypt({ name: "AES-GCM", iv: base64ToBytes(w.iv), additionalData: new TextEncoder().encode(w.id) }, wrapping, base64ToBytes(w.data)));
+  } catch {
+    throw new VaultError("WRONG_PASSPHRASE", "Wrong passphrase");
+  }
+}
+
+export async function unwrapDataKey(wrapping: CryptoKey, w: WrappedKey): Promise<DataKey> {
+  const raw = await unwrapRaw(wrapping, w);
+  const key = await crypto.subtle.importKey("raw", raw, "AES-GCM", false, ["encrypt", "decrypt"]);
+  raw.fill(0);
+  return { id: w.id, key };
+}
+
+/** Re-wraps a stored key under another passphrase-derived key without ever exposing it to the caller. */
+export async function rewrapDataKey(from: CryptoKey, to: CryptoKey, w: WrappedKey): Promise<WrappedKey> {
+  const raw = await unwrapRaw(from, w);
+  const out = await wrapRaw(to, w.id, raw);
+  raw.fill(0);
+  return out;
+}
+
+export function isSealed(bytes: Uint8Array): boolean {
+  return bytes.length >= HEADER_BYTES && MAGIC.every((b, i) => bytes[i] === b);
+}
+
+export function isSealedText(text: string): boolean {
+  return text.startsWith(TEXT_PREFIX);
+}
+
+/** Id of the data key `bytes` were sealed with. */
+export function sealedKeyId(bytes: Uint8Array): string {
+  return hex(bytes.subarray(MAGIC.length, MAGIC.length + ID_BYTES));
+}
+
+export async function seal(bytes: Uint8Array<ArrayBuffer>, dataKey: DataKey): Promise<Uint8Array<ArrayBuffer>> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const body = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, dataKey.key, bytes));
+  const out = new Uint8Array(HEADER_BYTES + body.length);
+  out.set(MAGIC, 0); out.set(unhex(dataKey.id), MAGIC.length); out.set(iv, MAGIC.length + ID_BYTES); out.set(body, HEADER_BYTES);
+  return out;
+}
+
+/** Decrypts with whichever of `keys` sealed it; throws a LOCKED VaultError when that key is not available. */
+export async function unseal(bytes: Uint8Array<ArrayBuffer>, keys: ReadonlyMap<string, CryptoKey>): Promise<Uint8Array<ArrayBuffer>> {
+  const id = sealedKeyId(bytes);
+  const key = keys.get(id);
+  if (!key) throw new VaultError("LOCKED", keys.size === 0 ? "The library is locked" : `No key ${id} for this data`);
+  const iv = bytes.subarray(MAGIC.length + ID_BYTES, HEADER_BYTES);
+  return new Uint8Array(await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, bytes.subarray(HEADER_BYTES)));
+}
+
+export async function sealText(text: string, dataKey: DataKey): Promise<string> {
+  return TEXT_PREFIX + arrayBufferToBase64((await seal(new TextEncoder().encode(text), dataKey)).buffer);
+}
+
+export async function unsealText(text: string, keys: ReadonlyMap<string, CryptoKey>): Promise<string> {
+  return new TextDecoder().decode(await unseal(base64ToBytes(text.slice(TEXT_PREFIX.length)), keys));
+}
@@ -0,0 +1,5 @@
+export { KDF_ITERATIONS, VaultError } from "./crypto";
+export type { VaultErrorCode } from "./crypto";
+export { Vault, vault } from "./vault";
+export type { Resealer, VaultSnapshot, VaultState, VaultTask } from "./vault";
+export { changeVaultPassphrase, disableVault, enableVault, isResealing, keepUnlocked, lockVault, resumeVaultTask, unlockVault } from "./service";
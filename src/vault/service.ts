@@ -0,0 +1,86 @@
+import { listAudio, resealAudio } from "../audioStorage";
+import { resealIndex } from "../notesStore";
+import { listTranscriptFiles, resealTranscriptFile, transcriber } from "../transcription";
+import { syncer } from "../sync";
+import { vault } from "./vault";
+import type { Resealer } from "./vault";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// App-wide vault service: the library-wide rewrite behind enabling, changing
+// and disabling encryption, and pausing background work around it.
+//
+// What is covered: the notes index (and its backups), audio and transcripts.
+// Exports, sync uploads and the sync server keep plain data; sync state and
+// the transcription job list hold ids only.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** The index goes first: it alone reveals every place and label, so an interrupted run has already covered it. */
+const resealLibrary: Resealer = async (onProgress) => {
+  const audio = await listAudio();
+  const transcripts = await listTranscriptFiles();
+  const total = 1 + audio.length + transcripts.length;
+  let done = 0;
+  const step = () => onProgress(++done, total);
+  onProgress(0, total);
+  await resealIndex(); step();
+  for (const a of audio) { await resealAudio(a); step(); }
+  for (const name of transcripts) { await resealTranscriptFile(name); step(); }
+};
+
+/** Nothing in the background touches storage while files are being rewritten. */
+async function paused<T>(task: () => Promise<T>): Promise<T> {
+  transcriber.stop();
+  syncer.stop();
+  try {
+    return await task();
+  } finally {
+    if (vault.getSnapshot().state !== "locked") { void transcriber.start(); void syncer.start(); }
+  }
+}
+
+export function unlockVault(passphrase: string): Promise<void> {
+  return vault.getSnapshot().task ? paused(() => vault.unlock(passphrase, resealLibrary)) : vault.unlock(passphrase, resealLibrary);
+}
+
+export function enableVault(passphrase: string): Promise<void> {
+  return paused(() => vault.enable(passphrase, resealLibrary));
+}
+
+export function changeVaultPassphrase(current: string, next: string): Promise<void> {
+  return paused(() => vault.changePassphrase(current, next, resealLibrary));
+}
+
+/** Finishes a rewrite that failed part way (or was cut off); see VaultSnapshot.taskError. */
+export function resumeVaultTask(): Promise<void> {
+  return paused(() => vault.resume(resealLibrary));
+}
+
+export function disableVault(passphrase: string): Promise<void> {
+  return paused(() => vault.disable(passphrase, resealLibrary));
+}
+
+let holds = 0;
+
+/** Keeps auto-lock away (during a recording, say) until the returned release is called. */
+export function keepUnlocked(): () => void {
+  holds++;
+  let released = false;
+  return () => { if (!released) { released = true; holds--; } };
+}
+
+/** Whether a library-wide rewrite is running; the vault cannot lock until it ends. */
+export function isResealing(): boolean {
+  return vault.getSnapshot().progress !== null;
+}
+
+/**
+ * Locks now, or returns false when it is not open, is being re-encrypted or
+ * something holds it open. Background work stops with it.
+ */
+export function lockVault(options: { force?: boolean } = {}): boolean {
+  if (vault.getSnapshot().state !== "unlocked" || isResealing() || (holds > 0 && !options.force)) return false;
+  vault.lock();
+  transcriber.stop();
+  syncer.stop();
+  return true;
+}
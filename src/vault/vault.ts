@@ -0,0 +1,281 @@
+import { Filesystem, Directory, Encoding } from "@capacitor/filesystem";
+import { KDF_ITERATIONS, VaultError, createDataKey, deriveWrappingKey, isSealed, isSealedText, randomSalt, rewrapDataKey, seal, sealText, sealedKeyId, unseal, unsealText, unwrapDataKey } from "./crypto";
+import type { DataKey, WrappedKey } from "./crypto";
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Encrypted vault
+//
+// vault.json holds the KDF salt and the data keys wrapped by the passphrase;
+// its absence means the library is stored in the clear. Losing it loses the
+// library, so it is written like the notes index: temp file first, then rename.
+//
+// Storage modules pass everything they write through seal*() and everything
+// they read through open*(). Opening passes plaintext through and sealing is
+// the identity while the vault is off, so a library half way through being
+// encrypted (or decrypted) reads fine at every step.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const META_FILE = "vault.json";
+const META_TMP = `${META_FILE}.tmp`;
+
+/**
+ * Library-wide rewrite in progress. Recorded in vault.json before it starts so
+ * that one cut short by a crash is finished after the next unlock.
+ */
+export type VaultTask = "seal" | "rekey" | "unseal";
+
+type VaultMeta = { version: 1; salt: string; iterations: number; keys: WrappedKey[]; current: string; task?: VaultTask };
+
+export type VaultState = "loading" | "off" | "locked" | "unlocked";
+
+export type VaultSnapshot = {
+  state: VaultState;
+  task: VaultTask | null;
+  /** Files rewritten so far while a task runs. */
+  progress: { done: number; total: number } | null;
+  /** vault.json could not be read; nothing can be opened until that is fixed. */
+  error: string | null;
+  /** Why the last run of `task` stopped short; resume() picks it up again. */
+  taskError: string | null;
+};
+
+/** Rewrites every stored file through seal/open, reporting progress as it goes. */
+export type Resealer = (onProgress: (done: number, total: number) => void) => Promise<void>;
+
+async function exists(path: string): Promise<boolean> {
+  try { await Filesystem.stat({ path, directory: Directory.Data }); return true; } catch { return false; }
+}
+
+function parseMeta(text: string): VaultMeta {
+  const m = JSON.parse(text) as Partial<VaultMeta>;
+  if (m.version !== 1 || typeof m.salt !== "string" || typeof m.iterations !== "number" || !Array.isArray(m.keys) || typeof m.current !== "string") throw new Error("unexpected shape");
+  return m as VaultMeta;
+}
+
+async function readMeta(): Promise<VaultMeta | null> {
+  // A crash inside writeMeta() can leave only the temp file behind.
+  for (const path of [META_FILE, META_TMP]) {
+    if (!(await exists(path))) continue;
+    try {
+      const { data } = await Filesystem.readFile({ path, directory: Directory.Data, encoding: Encoding.UTF8 });
+      return parseMeta(typeof data === "string" ? data : await data.text());
+    } catch (err) {
+      if (path === META_FILE && (await exists(META_TMP))) continue;
+      throw new VaultError("CORRUPT", `${path} is unreadable: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return null;
+}
+
+async function writeMeta(meta: VaultMeta): Promise<void> {
+  await Filesystem.writeFile({ path: META_TMP, directory: Directory.Data, data: JSON.stringify(meta), encoding: Encoding.UTF8 });
+  if (await exists(META_FILE)) await Filesystem.deleteFile({ path: META_FILE, directory: Directory.Data });
+  await Filesystem.rename({ from: META_TMP, to: META_FILE, directory: Directory.Data });
+}
+
+async function deleteMeta(): Promise<void> {
+  for (const path of [META_FILE, META_TMP]) if (await exists(path)) await Filesystem.deleteFile({ path, directory: Directory.Data });
+}
+
+export class Vault {
+  private meta: VaultMeta | null = null;
+  private keys = new Map<string, CryptoKey>();
+  private current: DataKey | null = null;
+  private loaded: Promise<void> | null = null;
+  private busy = false;
+  private snapshot: VaultSnapshot = { state: "loading", task: null, progress: null, error: null, taskError: null };
+  private listeners = new Set<(s: VaultSnapshot) => void>();
+  private lockListeners = new Set<() => void>();
+
+  getSnapshot = (): VaultSnapshot => this.snapshot;
+
+  subscribe = (listener: (s: VaultSnapshot) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  /** Reads vault.json once; every other operation waits for this. */
+  ready(): Promise<void> {
+    this.loaded ??= readMeta().then(
+      (meta) => { this.meta = meta; this.publish(); },
+      (err: unknown) => { this.publish({ error: err instanceof Error ? err.message : String(err) }); throw err; },
+    );
+    return this.loaded;
+  }
+
+  async isEnabled(): Promise<boolean> {
+    await this.ready();
+    return this.meta !== null;
+  }
+
+  /** Called after lock() has dropped the keys, so holders of decrypted data can drop it too. */
+  onLock(listener: () => void): () => void {
+    this.lockListeners.add(listener);
+    return () => { this.lockListeners.delete(listener); };
+  }
+
+  /** Unlocks, then finishes any task an earlier run was cut off in. */
+  async unlock(passphrase: string, reseal: Resealer): Promise<void> {
+    const meta = await this.requireMeta();
+    const wrapping = await deriveWrappingKey(passphrase, meta.salt, meta.iterations);
+    this.useKeys(await Promise.all(meta.keys.map((w) => unwrapDataKey(wrapping, w))), meta.current);
+    if (meta.task && !this.busy) await this.runTask(reseal);
+    else this.publish();
+  }
+
+  /** Runs an unfinished task again, e.g. after a rewrite failed part way; nothing else can change until it is done. */
+  async resume(reseal: Resealer): Promise<void> {
+    const meta = await this.requireMeta();
+    if (!this.current) throw new VaultError("LOCKED", "The library is locked");
+    if (this.busy) throw new VaultError("BUSY", "The library is still being re-encrypted");
+    if (meta.task) await this.runTask(reseal);
+  }
+
+  lock(): void {
+    if (this.busy) throw new VaultError("BUSY", "Wait for the library to finish re-encrypting");
+    if (!this.current) return;
+    this.keys = new Map();
+    this.current = null;
+    this.publish();
+    for (const l of this.lockListeners) l();
+  }
+
+  /** Encrypts an unencrypted library under a new passphrase. Leaves the vault unlocked. */
+  async enable(passphrase: string, reseal: Resealer): Promise<void> {
+    await this.ready();
+    if (this.meta) throw new VaultError("ALREADY_ENABLED", "The library is already encrypted");
+    const salt = randomSalt();
+    const { dataKey, wrapped } = await createDataKey(await deriveWrappingKey(passphrase, salt, KDF_ITERATIONS));
+    await this.setMeta({ version: 1, salt, iterations: KDF_ITERATIONS, keys: [wrapped], current: wrapped.id, task: "seal" });
+    this.useKeys([dataKey], dataKey.id);
+    await this.runTask(reseal);
+  }
+
+  /**
+   * Re-encrypts everything under a fresh data key wrapped by `next`. The old
+   * keys are carried over (re-wrapped) until the rewrite has finished, so an
+   * interrupted change still unlocks with the new passphrase.
+   */
+  async changePassphrase(currentPassphrase: string, next: string, reseal: Resealer): Promise<void> {
+    const meta = await this.requireIdle();
+    const previous = await deriveWrappingKey(currentPassphrase, meta.salt, meta.iterations);
+    const salt = randomSalt();
+    const wrapping = await deriveWrappingKey(next, salt, KDF_ITERATIONS);
+    const carried = await Promise.all(meta.keys.map((w) => rewrapDataKey(previous, wrapping, w)));
+    const { dataKey, wrapped } = await createDataKey(wrapping);
+    await this.setMeta({ version: 1, salt, iterations: KDF_ITERATIONS, keys: [...carried, wrapped], current: wrapped.id, task: "rekey" });
+    this.keys.set(dataKey.id, dataKey.key);
+    this.current = dataKey;
+    await this.runTask(reseal);
+  }
+
+  /** Decrypts the library back to plain files and removes vault.json. */
+  async disable(passphrase: string, reseal: Resealer): Promise<void> {
+    const meta = await this.requireIdle();
+    const current = meta.keys.find((w) => w.id === meta.current);
+    if (current) await unwrapDataKey(await deriveWrappingKey(passphrase, meta.salt, meta.iterations), current);
+    await this.setMeta({ ...meta, task: "unseal" });
+    await this.runTask(reseal);
+  }
+
+  // ── Sealing ──────────────────────────────────────────────────────────────
+
+  async sealText(text: string): Promise<string> {
+    const key = await this.sealingKey();
+    return key ? sealText(text, key) : text;
+  }
+
+  async openText(text: string): Promise<string> {
+    return isSealedText(text) ? unsealText(text, this.keys) : text;
+  }
+
+  async sealBytes(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+    const key = await this.sealingKey();
+    return key ? seal(bytes, key) : bytes;
+  }
+
+  async openBytes(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+    return isSealed(bytes) ? unseal(bytes, this.keys) : bytes;
+  }
+
+  /** Whether stored bytes are already what sealBytes() would write now, so a reseal can skip them. */
+  isCurrent(bytes: Uint8Array): boolean {
+    const key = this.writesPlain() ? null : this.current;
+    return key ? isSealed(bytes) && sealedKeyId(bytes) === key.id : !isSealed(bytes);
+  }
+
+  // ── Internals ────────────────────────────────────────────────────────────
+
+  private writesPlain(): boolean {
+    return !this.meta || this.meta.task === "unseal";
+  }
+
+  private async sealingKey(): Promise<DataKey | null> {
+    await this.ready();
+    if (this.writesPlain()) return null;
+    if (!this.current) throw new VaultError("LOCKED", "The library is locked");
+    return this.current;
+  }
+
+  private async requireMeta(): Promise<VaultMeta> {
+    await this.ready();
+    if (!this.meta) throw new VaultError("NOT_ENABLED", "The library is not encrypted");
+    return this.meta;
+  }
+
+  private async requireIdle(): Promise<VaultMeta> {
+    const meta = await this.requireMeta();
+    if (!this.current) throw new VaultError("LOCKED", "The library is locked");
+    if (this.busy) throw new VaultError("BUSY", "The library is still being re-encrypted");
+    if (meta.task) throw new VaultError("BUSY", "An earlier re-encryption did not finish; resume it first");
+    return meta;
+  }
+
+  private useKeys(keys: DataKey[], current: string): void {
+    this.keys = new Map(keys.map((k) => [k.id, k.key]));
+    this.current = keys.find((k) => k.id === current) ?? null;
+    if (!this.current) throw new VaultError("CORRUPT", "vault.json names a data key it does not hold");
+  }
+
+  private async setMeta(meta: VaultMeta): Promise<void> {
+    await writeMeta(meta);
+    this.meta = meta;
+  }
+
+  /**
+   * A failed rewrite leaves the task recorded, as a crash would, and publishes
+   * why so the user can resume() it; the files done so far read fine either way.
+   */
+  private async runTask(reseal: Resealer): Promise<void> {
+    this.busy = true;
+    this.publish({ progress: { done: 0, total: 0 }, taskError: null });
+    let failure: string | null = null;
+    try {
+      await reseal((done, total) => this.publish({ progress: { done, total } }));
+      const meta = this.meta as VaultMeta;
+      if (meta.task === "unseal") {
+        await deleteMeta();
+        this.meta = null;
+        this.keys = new Map();
+        this.current = null;
+      } else {
+        await this.setMeta({ ...meta, keys: meta.keys.filter((w) => w.id === meta.current), task: undefined });
+        this.keys = new Map([[meta.current, (this.current as DataKey).key]]);
+      }
+    } catch (err) {
+      failure = err instanceof Error ? err.message : String(err);
+      throw err;
+    } finally {
+      this.busy = false;
+      this.publish({ progress: null, taskError: failure });
+    }
+  }
+
+  private publish(patch: Partial<Pick<VaultSnapshot, "progress" | "error" | "taskError">> = {}): void {
+    const state: VaultState = this.snapshot.error || patch.error ? "locked" : !this.meta ? "off" : this.current ? "unlocked" : "locked";
+    this.snapshot = { ...this.snapshot, ...patch, state, task: this.meta?.task ?? null };
+    for (const l of this.listeners) l(this.snapshot);
+  }
+}
+
+export const vault = new Vault();